@@ -1,19 +1,48 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { ReactFlowProvider } from '@xyflow/react';
 import { Toolbar } from '../containers/panels/Toolbar';
 import { NodePanel } from '../containers/panels/NodePanel';
 import { WorkflowCanvas } from '../containers/panels/WorkflowCanvas';
 import { PropertiesPanel } from '../containers/panels/PropertiesPanel';
+import { ValidationPanel } from '../containers/panels/ValidationPanel';
+import { SimulationPanel } from '../containers/panels/SimulationPanel';
+import { HistoryPanel } from '../containers/panels/HistoryPanel';
+import { useWorkflowContext } from '../context/workflowContext';
+import { useTemplateContext } from '../context/templateContext';
+import { useCredentialContext } from '../context/credentialContext';
+
+// Drafts are written once editing pauses for this long rather than on every keystroke.
+const AUTOSAVE_DELAY_MS = 2000;
 
 function App() {
+  const { workflows, currentWorkflow, hydrate, autosave } = useWorkflowContext();
+  const hydrateTemplates = useTemplateContext(state => state.hydrate);
+  const hydrateCredentials = useCredentialContext(state => state.hydrate);
+
+  useEffect(() => {
+    hydrate();
+    hydrateTemplates();
+    hydrateCredentials();
+  }, [hydrate, hydrateTemplates, hydrateCredentials]);
+
+  useEffect(() => {
+    const timer = setTimeout(autosave, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [workflows, currentWorkflow, autosave]);
+
   return (
     <div className="h-screen flex flex-col bg-gray-50">
       <Toolbar />
       <div className="flex-1 flex">
         <NodePanel />
-        <ReactFlowProvider>
-          <WorkflowCanvas />
-        </ReactFlowProvider>
+        <div className="flex-1 flex flex-col">
+          <ReactFlowProvider>
+            <WorkflowCanvas />
+          </ReactFlowProvider>
+          <SimulationPanel />
+          <HistoryPanel />
+          <ValidationPanel />
+        </div>
         <PropertiesPanel />
       </div>
     </div>
@@ -0,0 +1,41 @@
+import React from 'react';
+import { NodeToolbar, Position } from '@xyflow/react';
+import { Trash2 } from 'lucide-react';
+import { ANNOTATION_COLORS } from '../../models';
+import { useWorkflowContext } from '../../context/workflowContext';
+
+interface AnnotationToolbarProps {
+  id: string;
+  color: string;
+  isVisible: boolean;
+}
+
+// Colour swatches and delete, shown above a selected note or group frame.
+export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({ id, color, isVisible }) => {
+  const { updateAnnotation, deleteAnnotation } = useWorkflowContext();
+
+  return (
+    <NodeToolbar
+      isVisible={isVisible}
+      position={Position.Top}
+      className="flex items-center space-x-1 bg-white border border-gray-200 rounded-md shadow px-2 py-1"
+    >
+      {ANNOTATION_COLORS.map(swatch => (
+        <button
+          key={swatch}
+          onClick={() => updateAnnotation(id, { color: swatch })}
+          className={`w-4 h-4 rounded-full border ${swatch === color ? 'border-blue-500 ring-2 ring-blue-300' : 'border-gray-300'}`}
+          style={{ backgroundColor: swatch }}
+          title="Change colour"
+        />
+      ))}
+      <button
+        onClick={() => deleteAnnotation(id)}
+        className="p-1 ml-1 text-gray-500 hover:text-red-600 rounded transition-colors"
+        title="Delete"
+      >
+        <Trash2 size={12} />
+      </button>
+    </NodeToolbar>
+  );
+};
@@ -1,8 +1,13 @@
-import React, { memo, useState } from 'react';
-import { Handle, Position, NodeProps } from '@xyflow/react';
-import { Edit2, Trash2 } from 'lucide-react';
-import { WorkflowNode, NodeData } from '../../models';
+import React, { memo, useEffect, useState } from 'react';
+import { Handle, Position, NodeProps, useUpdateNodeInternals } from '@xyflow/react';
+import { Edit2, Trash2, AlertCircle, AlertTriangle, CircleDot, Copy } from 'lucide-react';
+import { WorkflowNode, NodeData, formatSchema, inferSchema, normalizeSchema } from '../../models';
 import { useWorkflowContext } from '../../context/workflowContext';
+import { useSimulationContext } from '../../context/simulationContext';
+import { useCanvasDiff } from '../../context/historyContext';
+
+// Spreads `count` handles evenly along an edge of the node.
+const portOffset = (index: number, count: number) => `${((index + 1) / (count + 1)) * 100}%`;
 
 interface BaseNodeProps extends NodeProps {
   icon: React.ReactNode;
@@ -10,6 +15,8 @@ interface BaseNodeProps extends NodeProps {
   borderColor: string;
   textColor: string;
   nodeType: string;
+  // Extra buttons shown before the standard edit/breakpoint/delete actions.
+  actions?: React.ReactNode;
 }
 
 export const BaseNode = memo<BaseNodeProps>(({ 
@@ -20,14 +27,37 @@ export const BaseNode = memo<BaseNodeProps>(({
   bgColor, 
   borderColor, 
   textColor,
-  nodeType
+  nodeType,
+  actions
 }) => {
   // Cast data to our NodeData type
   const nodeData = data as NodeData & { type?: string };
   
+  const inputPorts = Object.keys(nodeData.inputs || {});
+  const outputPorts = Object.keys(nodeData.outputs || {});
+
+  // React Flow caches handle positions, so tell it when the set of ports changes.
+  const updateNodeInternals = useUpdateNodeInternals();
+  const portSignature = [...inputPorts, '|', ...outputPorts].join(',');
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, portSignature, updateNodeInternals]);
+
   const [isEditing, setIsEditing] = useState(false);
   const [labelValue, setLabelValue] = useState(nodeData.label || '');
-  const { updateNode, deleteNode, setSelectedNode } = useWorkflowContext();
+  const { currentWorkflow, workflows, updateNode, deleteNode, setSelectedNode, selectedNodeIds, duplicateNodes } = useWorkflowContext();
+
+  const diagnostics = (currentWorkflow?.validate(workflows) || []).filter(d => d.nodeId === id);
+  const hasErrors = diagnostics.some(d => d.severity === 'error');
+
+  const { state: simulationState, simulator, breakpoints, toggleBreakpoint } = useSimulationContext();
+  const hasBreakpoint = breakpoints.includes(id);
+  const isActive = !!simulator && !!simulationState
+    && !simulator.isFinished(simulationState) && simulator.nextNodeId(simulationState) === id;
+  const runStatus = simulationState?.nodeStates[id]?.status;
+
+  // Set while the history panel compares a saved version with the canvas.
+  const diffKind = useCanvasDiff()?.nodes.find(change => change.id === id)?.kind;
 
   const handleLabelSubmit = () => {
     if (labelValue.trim()) {
@@ -62,22 +92,98 @@ export const BaseNode = memo<BaseNodeProps>(({
         relative group rounded-lg border-2 transition-all duration-200 cursor-pointer
         ${bgColor} ${borderColor} ${textColor}
         ${selected ? 'ring-2 ring-blue-500 ring-opacity-50' : ''}
+        ${isActive ? 'ring-4 ring-indigo-400 animate-pulse' : ''}
+        ${runStatus === 'completed' ? 'shadow-[0_0_0_3px_rgba(34,197,94,0.6)]' : ''}
+        ${runStatus === 'failed' ? 'shadow-[0_0_0_3px_rgba(220,38,38,0.7)]' : ''}
+        ${diffKind === 'added' ? 'outline outline-4 outline-offset-2 outline-emerald-400' : ''}
+        ${diffKind === 'changed' ? 'outline outline-4 outline-offset-2 outline-sky-400' : ''}
         hover:shadow-lg hover:scale-105
         min-w-[180px] min-h-[80px]
       `}
       onClick={handleNodeClick}
     >
-      {/* Connection Handles */}
-      <Handle
-        type="target"
-        position={Position.Top}
-        className="w-3 h-3 bg-gray-400 border-2 border-white hover:bg-blue-500"
-      />
-      <Handle
-        type="source"
-        position={Position.Bottom}
-        className="w-3 h-3 bg-gray-400 border-2 border-white hover:bg-blue-500"
-      />
+      {/* Connection Handles: one per input port on top, one per output port at the bottom */}
+      {inputPorts.length > 0 ? (
+        inputPorts.map((port, index) => (
+          <Handle
+            key={port}
+            id={port}
+            type="target"
+            position={Position.Top}
+            style={{ left: portOffset(index, inputPorts.length) }}
+            className="w-3 h-3 bg-gray-400 border-2 border-white hover:bg-blue-500"
+            title={`Input: ${port} (${formatSchema(nodeData.inputSchemas?.[port] || inferSchema(nodeData.inputs?.[port]))})`}
+          />
+        ))
+      ) : (
+        <Handle
+          type="target"
+          position={Position.Top}
+          className="w-3 h-3 bg-gray-400 border-2 border-white hover:bg-blue-500"
+        />
+      )}
+      {outputPorts.length > 0 ? (
+        outputPorts.map((port, index) => (
+          <Handle
+            key={port}
+            id={port}
+            type="source"
+            position={Position.Bottom}
+            style={{ left: portOffset(index, outputPorts.length) }}
+            className="w-3 h-3 bg-gray-400 border-2 border-white hover:bg-blue-500"
+            title={`Output: ${port} (${formatSchema(normalizeSchema(nodeData.outputs?.[port]))})`}
+          />
+        ))
+      ) : (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          className="w-3 h-3 bg-gray-400 border-2 border-white hover:bg-blue-500"
+        />
+      )}
+
+      {/* Port names, shown on hover */}
+      {inputPorts.length > 0 && (
+        <div className="absolute -top-5 inset-x-0 h-4 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+          {inputPorts.map((port, index) => (
+            <span
+              key={port}
+              className="absolute -translate-x-1/2 text-[9px] text-gray-600 whitespace-nowrap"
+              style={{ left: portOffset(index, inputPorts.length) }}
+            >
+              {port}
+            </span>
+          ))}
+        </div>
+      )}
+      {outputPorts.length > 0 && (
+        <div className="absolute -bottom-5 inset-x-0 h-4 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+          {outputPorts.map((port, index) => (
+            <span
+              key={port}
+              className="absolute -translate-x-1/2 text-[9px] text-gray-600 whitespace-nowrap"
+              style={{ left: portOffset(index, outputPorts.length) }}
+            >
+              {port}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Validation Badge */}
+      {diagnostics.length > 0 && (
+        <div
+          className={`absolute -top-2 -left-2 rounded-full p-0.5 bg-white shadow ${hasErrors ? 'text-red-600' : 'text-yellow-600'}`}
+          title={diagnostics.map(d => d.message).join('\n')}
+        >
+          {hasErrors ? <AlertCircle size={16} /> : <AlertTriangle size={16} />}
+        </div>
+      )}
+
+      {/* Breakpoint Marker */}
+      {hasBreakpoint && (
+        <div className="absolute -top-2 -right-2 w-4 h-4 rounded-full bg-red-600 border-2 border-white" title="Breakpoint" />
+      )}
 
       {/* Node Content */}
       <div className="p-4 flex flex-col items-center space-y-2">
@@ -117,6 +223,7 @@ export const BaseNode = memo<BaseNodeProps>(({
 
       {/* Action Buttons */}
       <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity flex space-x-1">
+        {actions}
         <button
           onClick={(e) => {
             e.stopPropagation();
@@ -127,6 +234,27 @@ export const BaseNode = memo<BaseNodeProps>(({
         >
           <Edit2 size={12} />
         </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            // Duplicates the whole selection when this node is part of it.
+            duplicateNodes(selectedNodeIds.includes(id) ? selectedNodeIds : [id]);
+          }}
+          className="p-1 bg-white bg-opacity-20 hover:bg-opacity-30 rounded text-white hover:text-blue-200 transition-colors"
+          title="Duplicate (Ctrl+D)"
+        >
+          <Copy size={12} />
+        </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            toggleBreakpoint(id);
+          }}
+          className="p-1 bg-white bg-opacity-20 hover:bg-opacity-30 rounded text-white hover:text-red-200 transition-colors"
+          title={hasBreakpoint ? 'Remove breakpoint' : 'Add breakpoint'}
+        >
+          <CircleDot size={12} />
+        </button>
         <button
           onClick={(e) => {
             e.stopPropagation();
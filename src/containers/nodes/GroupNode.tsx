@@ -0,0 +1,70 @@
+import { memo, useState } from 'react';
+import { NodeProps, NodeResizer } from '@xyflow/react';
+import { AnnotationData } from '../../models';
+import { useWorkflowContext } from '../../context/workflowContext';
+import { AnnotationToolbar } from './AnnotationToolbar';
+
+// Class of the title bar; the canvas only lets a frame be dragged by it, so
+// box selections and clicks inside the frame still reach the nodes.
+export const GROUP_DRAG_HANDLE = 'group-drag-handle';
+
+// A titled frame drawn behind the nodes it contains. Dragging it by the title
+// moves everything inside along with it.
+export const GroupNode = memo<NodeProps>(({ id, data, selected }) => {
+  const groupData = data as unknown as AnnotationData;
+  const { currentWorkflow, updateAnnotation, resizeAnnotation } = useWorkflowContext();
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(groupData.title || '');
+
+  const memberCount = currentWorkflow?.getGroupMembers(id).nodeIds.length || 0;
+
+  const handleSubmit = () => {
+    if (title.trim() && title.trim() !== groupData.title) updateAnnotation(id, { title: title.trim() });
+    setIsEditing(false);
+  };
+
+  return (
+    <>
+      <NodeResizer
+        isVisible={selected}
+        minWidth={160}
+        minHeight={100}
+        onResizeEnd={(_event, params) => resizeAnnotation(
+          id, { x: params.x, y: params.y }, { width: params.width, height: params.height }
+        )}
+      />
+      <AnnotationToolbar id={id} color={groupData.color} isVisible={selected && !isEditing} />
+      <div className="relative w-full h-full rounded-lg border-2" style={{ borderColor: groupData.color }}>
+        <div className="absolute inset-0 rounded-md opacity-20" style={{ backgroundColor: groupData.color }} />
+        <div
+          className={`${GROUP_DRAG_HANDLE} relative flex items-center justify-between px-3 py-1 rounded-t-md cursor-move text-sm font-semibold text-gray-800`}
+          style={{ backgroundColor: groupData.color }}
+          onDoubleClick={() => {
+            setTitle(groupData.title || '');
+            setIsEditing(true);
+          }}
+        >
+          {isEditing ? (
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onBlur={handleSubmit}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSubmit();
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              className="nodrag flex-1 bg-white px-1 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              autoFocus
+            />
+          ) : (
+            <span className="truncate" title="Double-click to rename">{groupData.title || 'Group'}</span>
+          )}
+          <span className="ml-2 text-xs font-normal text-gray-600 whitespace-nowrap">
+            {memberCount} node{memberCount === 1 ? '' : 's'}
+          </span>
+        </div>
+      </div>
+    </>
+  );
+});
@@ -0,0 +1,59 @@
+// src/containers/nodes/NodeTypeViews.ts
+
+// How a node type looks in the editor: its icon and colours, the component
+// drawn on the canvas and the section it adds to the properties panel. The
+// model side of a type lives in `NodeTypeRegistry`; `defineNodeType` registers
+// both, so a custom node type can ship as one module imported from `main.tsx`.
+
+import React from 'react';
+import { NodeProps } from '@xyflow/react';
+import { Box, LucideIcon } from 'lucide-react';
+import { WorkflowNode, NodeTypeDefinition, registerNodeType } from '../../models';
+
+export interface NodeTypeColors {
+  // Tailwind classes of the node on the canvas.
+  background: string;
+  border: string;
+  text: string;
+  // Tailwind classes of the type's entry in the node panel.
+  palette: string;
+  // Fill of the node in the minimap.
+  minimap: string;
+}
+
+export interface NodeTypeView {
+  icon: LucideIcon;
+  colors: NodeTypeColors;
+  // Drawn on the canvas; without one the node is a `RegisteredNode` in the type's icon and colours.
+  component?: React.ComponentType<NodeProps>;
+  // The type's own settings, shown in the properties panel below the label and description.
+  properties?: React.ComponentType<{ node: WorkflowNode }>;
+}
+
+// Used for types registered with the model only.
+const DEFAULT_VIEW: NodeTypeView = {
+  icon: Box,
+  colors: {
+    background: 'bg-gray-500',
+    border: 'border-gray-600',
+    text: 'text-white',
+    palette: 'bg-gray-500 hover:bg-gray-600',
+    minimap: '#6b7280',
+  },
+};
+
+const views = new Map<string, NodeTypeView>();
+
+export function registerNodeTypeView(type: string, view: NodeTypeView): void {
+  views.set(type, view);
+}
+
+export function getNodeTypeView(type: string | undefined): NodeTypeView {
+  return (type && views.get(type)) || DEFAULT_VIEW;
+}
+
+/** Registers a node type with both the model and the editor. */
+export function defineNodeType({ icon, colors, component, properties, ...definition }: NodeTypeDefinition & NodeTypeView): void {
+  registerNodeType(definition);
+  registerNodeTypeView(definition.type, { icon, colors, component, properties });
+}
@@ -0,0 +1,137 @@
+import React, { memo, useState } from 'react';
+import { NodeProps, NodeResizer } from '@xyflow/react';
+import { AnnotationData } from '../../models';
+import { useWorkflowContext } from '../../context/workflowContext';
+import { AnnotationToolbar } from './AnnotationToolbar';
+
+// Only web and mail links are followed; anything else renders as plain text.
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+// Inline markdown: **bold**, *italic* or _italic_, `code` and [links](url).
+const renderInline = (text: string): React.ReactNode[] =>
+  text.split(/(\*\*[^*]+\*\*|\*[^*]+\*|_[^_]+_|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g).map((part, index) => {
+    if (/^\*\*[^*]+\*\*$/.test(part)) return <strong key={index}>{part.slice(2, -2)}</strong>;
+    if (/^(\*[^*]+\*|_[^_]+_)$/.test(part)) return <em key={index}>{part.slice(1, -1)}</em>;
+    if (/^`[^`]+`$/.test(part)) return <code key={index} className="px-1 bg-black bg-opacity-10 rounded">{part.slice(1, -1)}</code>;
+    const link = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(part);
+    if (link) {
+      return SAFE_LINK.test(link[2])
+        ? <a key={index} href={link[2]} target="_blank" rel="noreferrer" className="underline text-blue-700">{link[1]}</a>
+        : link[1];
+    }
+    return part;
+  });
+
+const BULLET_ITEM = /^\s*[-*]\s+/;
+const NUMBERED_ITEM = /^\s*\d+\.\s+/;
+
+// Block markdown: headings, bullet and numbered lists, code fences and paragraphs.
+// Rendered to elements rather than HTML, so note text can never inject markup.
+const renderMarkdown = (text: string): React.ReactNode[] => {
+  const lines = text.split('\n');
+  const blocks: React.ReactNode[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = blocks.length;
+
+    if (line.startsWith('```')) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].startsWith('```'); i++) code.push(lines[i]);
+      i++;
+      blocks.push(<pre key={key} className="p-2 bg-black bg-opacity-10 rounded font-mono text-xs whitespace-pre-wrap">{code.join('\n')}</pre>);
+      continue;
+    }
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    if (heading) {
+      const size = ['text-lg', 'text-base', 'text-sm'][heading[1].length - 1];
+      blocks.push(<div key={key} className={`${size} font-semibold`}>{renderInline(heading[2])}</div>);
+      i++;
+      continue;
+    }
+
+    const ordered = NUMBERED_ITEM.test(line);
+    if (ordered || BULLET_ITEM.test(line)) {
+      const marker = ordered ? NUMBERED_ITEM : BULLET_ITEM;
+      const items: string[] = [];
+      for (; i < lines.length && marker.test(lines[i]); i++) items.push(lines[i].replace(marker, ''));
+      const List = ordered ? 'ol' : 'ul';
+      blocks.push(
+        <List key={key} className={`pl-5 ${ordered ? 'list-decimal' : 'list-disc'}`}>
+          {items.map((item, index) => <li key={index}>{renderInline(item)}</li>)}
+        </List>
+      );
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // A paragraph runs until a blank line or the start of another block.
+    const paragraph: string[] = [];
+    for (; i < lines.length && lines[i].trim() && !/^(```|#{1,3}\s|\s*[-*]\s|\s*\d+\.\s)/.test(lines[i]); i++) {
+      paragraph.push(lines[i]);
+    }
+    blocks.push(<p key={key}>{renderInline(paragraph.join(' '))}</p>);
+  }
+  return blocks;
+};
+
+// A sticky note with markdown text. Double-click to edit; the text is rendered once the editor loses focus.
+export const NoteNode = memo<NodeProps>(({ id, data, selected }) => {
+  const noteData = data as unknown as AnnotationData;
+  const { updateAnnotation, resizeAnnotation } = useWorkflowContext();
+  const [isEditing, setIsEditing] = useState(false);
+  const [text, setText] = useState(noteData.text || '');
+
+  const handleSubmit = () => {
+    if (text !== (noteData.text || '')) updateAnnotation(id, { text });
+    setIsEditing(false);
+  };
+
+  return (
+    <>
+      <NodeResizer
+        isVisible={selected}
+        minWidth={120}
+        minHeight={80}
+        onResizeEnd={(_event, params) => resizeAnnotation(
+          id, { x: params.x, y: params.y }, { width: params.width, height: params.height }
+        )}
+      />
+      <AnnotationToolbar id={id} color={noteData.color} isVisible={selected && !isEditing} />
+      <div
+        className="w-full h-full rounded-md shadow-md border border-black border-opacity-10 p-3 text-sm text-gray-800 overflow-hidden"
+        style={{ backgroundColor: noteData.color }}
+        onDoubleClick={() => {
+          setText(noteData.text || '');
+          setIsEditing(true);
+        }}
+      >
+        {isEditing ? (
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={handleSubmit}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                setText(noteData.text || '');
+                setIsEditing(false);
+              }
+            }}
+            className="nodrag nowheel w-full h-full resize-none bg-transparent font-mono text-xs focus:outline-none"
+            placeholder="Markdown: # heading, **bold**, - list, `code`"
+            autoFocus
+          />
+        ) : noteData.text ? (
+          <div className="nowheel space-y-1 h-full overflow-y-auto">{renderMarkdown(noteData.text)}</div>
+        ) : (
+          <span className="italic text-gray-500">Double-click to write a note</span>
+        )}
+      </div>
+    </>
+  );
+});
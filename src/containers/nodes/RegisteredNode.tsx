@@ -0,0 +1,24 @@
+import React from 'react';
+import { NodeProps } from '@xyflow/react';
+import { BaseNode } from './BaseNode';
+import { getNodeTypeView } from './NodeTypeViews';
+
+interface RegisteredNodeProps extends NodeProps {
+  actions?: React.ReactNode;
+}
+
+// A node drawn in the icon and colours registered for its type.
+export const RegisteredNode: React.FC<RegisteredNodeProps> = (props) => {
+  const { icon: Icon, colors } = getNodeTypeView(props.type);
+
+  return (
+    <BaseNode
+      {...props}
+      icon={<Icon size={16} />}
+      bgColor={colors.background}
+      borderColor={colors.border}
+      textColor={colors.text}
+      nodeType={props.type}
+    />
+  );
+};
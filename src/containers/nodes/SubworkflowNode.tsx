@@ -0,0 +1,27 @@
+import React from 'react';
+import { Maximize2 } from 'lucide-react';
+import { RegisteredNode } from './RegisteredNode';
+import { NodeProps } from '@xyflow/react';
+import { useWorkflowContext } from '../../context/workflowContext';
+
+export const SubworkflowNode: React.FC<NodeProps> = (props) => {
+  const { openSubworkflow } = useWorkflowContext();
+
+  return (
+    <RegisteredNode
+      {...props}
+      actions={
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            openSubworkflow(props.id);
+          }}
+          className="p-1 bg-white bg-opacity-20 hover:bg-opacity-30 rounded text-white hover:text-blue-200 transition-colors"
+          title="Open subworkflow"
+        >
+          <Maximize2 size={12} />
+        </button>
+      }
+    />
+  );
+};
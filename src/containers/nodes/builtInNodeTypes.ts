@@ -0,0 +1,96 @@
+// src/containers/nodes/builtInNodeTypes.ts
+
+// Editor views of the built-in node types; their model side is registered in `WorkflowNode.ts`.
+
+import { Play, Square, Brain, Wrench, Pause, LogIn, Workflow } from 'lucide-react';
+import { registerNodeTypeView } from './NodeTypeViews';
+import { SubworkflowNode } from './SubworkflowNode';
+import { LLMNodeProperties } from '../properties/LLMNodeProperties';
+import { ToolNodeProperties } from '../properties/ToolNodeProperties';
+import { InterruptNodeProperties } from '../properties/InterupptNodeProperties';
+import { InputNodeProperties } from '../properties/InputNodeProperties';
+import { SubworkflowNodeProperties } from '../properties/SubworkflowNodeProperties';
+
+registerNodeTypeView('start', {
+  icon: Play,
+  colors: {
+    background: 'bg-green-500',
+    border: 'border-green-600',
+    text: 'text-white',
+    palette: 'bg-green-500 hover:bg-green-600',
+    minimap: '#22C55E',
+  },
+});
+
+registerNodeTypeView('end', {
+  icon: Square,
+  colors: {
+    background: 'bg-red-500',
+    border: 'border-red-600',
+    text: 'text-white',
+    palette: 'bg-red-500 hover:bg-red-600',
+    minimap: '#ef4444',
+  },
+});
+
+registerNodeTypeView('llm', {
+  icon: Brain,
+  colors: {
+    background: 'bg-gradient-to-br from-blue-500 to-blue-600',
+    border: 'border-blue-400',
+    text: 'text-white',
+    palette: 'bg-blue-500 hover:bg-blue-600',
+    minimap: '#3b82f6',
+  },
+  properties: LLMNodeProperties,
+});
+
+registerNodeTypeView('tool', {
+  icon: Wrench,
+  colors: {
+    background: 'bg-gradient-to-br from-emerald-500 to-emerald-600',
+    border: 'border-green-400',
+    text: 'text-white',
+    palette: 'bg-emerald-600 hover:bg-emerald-700',
+    minimap: '#0EB27C',
+  },
+  properties: ToolNodeProperties,
+});
+
+registerNodeTypeView('interrupt', {
+  icon: Pause,
+  colors: {
+    background: 'bg-gradient-to-br from-yellow-500 to-yellow-600',
+    border: 'border-yellow-400',
+    text: 'text-white',
+    palette: 'bg-yellow-500 hover:bg-yellow-600',
+    minimap: '#E1A807',
+  },
+  properties: InterruptNodeProperties,
+});
+
+registerNodeTypeView('userInput', {
+  icon: LogIn,
+  colors: {
+    background: 'bg-gradient-to-br from-purple-500 to-purple-600',
+    border: 'border-purple-400',
+    text: 'text-white',
+    palette: 'bg-purple-500 hover:bg-purple-600',
+    minimap: '#A44FF4',
+  },
+  properties: InputNodeProperties,
+});
+
+registerNodeTypeView('subworkflow', {
+  icon: Workflow,
+  colors: {
+    background: 'bg-gradient-to-br from-slate-600 to-slate-700',
+    border: 'border-slate-400',
+    text: 'text-white',
+    palette: 'bg-slate-600 hover:bg-slate-700',
+    minimap: '#475569',
+  },
+  // Adds a button that drills into the embedded workflow.
+  component: SubworkflowNode,
+  properties: SubworkflowNodeProperties,
+});
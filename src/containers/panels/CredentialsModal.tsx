@@ -0,0 +1,202 @@
+// src/containers/panels/CredentialsModal.tsx
+
+import React, { useState } from 'react';
+import { AlertCircle, Check, Copy, KeyRound, Lock, Trash2, Unlock } from 'lucide-react';
+import { useCredentialContext } from '../../context/credentialContext';
+import { isValidSecretName, secretReference } from '../../models';
+
+interface CredentialsModalProps {
+  onClose: () => void;
+}
+
+// Manages the credential vault: named secrets kept in this browser, apart from
+// workflows, which nodes refer to as `secret:name`.
+export const CredentialsModal: React.FC<CredentialsModalProps> = ({ onClose }) => {
+  const { secrets, passphrase, saveSecret, deleteSecret, unlock, lock, readSecret } = useCredentialContext();
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+  const [description, setDescription] = useState('');
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphraseInput, setPassphraseInput] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const hasEncrypted = secrets.some(secret => secret.encrypted);
+  const nameTaken = secrets.some(secret => secret.name === name.trim());
+
+  const copy = async (key: string, text: () => Promise<string>) => {
+    try {
+      await navigator.clipboard.writeText(await text());
+      setCopied(key);
+      setTimeout(() => setCopied(current => (current === key ? null : current)), 1500);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!passphraseInput) return;
+    if (await unlock(passphraseInput)) {
+      setPassphraseInput('');
+      setError('');
+    } else {
+      setError('That passphrase does not unlock the vault.');
+    }
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!isValidSecretName(trimmed)) {
+      setError('Names may only use letters, digits, "_" and "-".');
+      return;
+    }
+    try {
+      await saveSecret(trimmed, value, { description: description.trim(), encrypt });
+      setName('');
+      setValue('');
+      setDescription('');
+      setError('');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[36rem] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <h3 className="text-lg font-semibold mb-1 flex items-center space-x-2">
+          <KeyRound size={18} />
+          <span>Credentials</span>
+        </h3>
+        <p className="text-xs text-gray-500 mb-4">
+          Secrets stay in this browser, apart from workflows. Use one in any input as{' '}
+          <code className="px-1 bg-gray-100 rounded">secret:name</code>; exports only ever contain the reference.
+        </p>
+
+        <div className="flex items-center space-x-2 mb-4">
+          {passphrase ? (
+            <>
+              <span className="flex-1 flex items-center text-sm text-green-700">
+                <Unlock size={14} className="mr-1" /> Vault unlocked for this session
+              </span>
+              <button onClick={lock} className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-md">
+                Lock
+              </button>
+            </>
+          ) : (
+            <>
+              <input
+                type="password"
+                value={passphraseInput}
+                onChange={(e) => setPassphraseInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                placeholder={hasEncrypted ? 'Passphrase of the encrypted secrets' : 'Choose a passphrase to encrypt secrets'}
+                className="flex-1 px-3 py-1 border border-gray-300 rounded-md text-sm"
+              />
+              <button
+                onClick={handleUnlock}
+                disabled={!passphraseInput}
+                className="px-3 py-1 text-sm bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:opacity-50"
+              >
+                Unlock
+              </button>
+            </>
+          )}
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto mb-4 divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {secrets.length === 0 && <p className="text-sm text-gray-500 p-3">No secrets yet.</p>}
+          {secrets.map(secret => {
+            const locked = !!secret.encrypted && !passphrase;
+            return (
+              <div key={secret.name} className="flex items-center p-2 space-x-2">
+                {secret.encrypted && <Lock size={12} className="text-gray-400 flex-shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <code className="block text-sm text-gray-800 truncate">{secretReference(secret.name)}</code>
+                  {secret.description && <span className="block text-xs text-gray-500 truncate">{secret.description}</span>}
+                </div>
+                <button
+                  onClick={() => copy(`ref:${secret.name}`, async () => secretReference(secret.name))}
+                  className="p-1 text-gray-500 hover:text-blue-600 rounded"
+                  title="Copy reference"
+                >
+                  {copied === `ref:${secret.name}` ? <Check size={14} /> : <Copy size={14} />}
+                </button>
+                <button
+                  onClick={() => copy(`value:${secret.name}`, () => readSecret(secret.name))}
+                  disabled={locked}
+                  className="p-1 text-gray-500 hover:text-blue-600 rounded disabled:opacity-40"
+                  title={locked ? 'Unlock the vault to copy the value' : 'Copy value'}
+                >
+                  {copied === `value:${secret.name}` ? <Check size={14} /> : <KeyRound size={14} />}
+                </button>
+                <button
+                  onClick={() => deleteSecret(secret.name)}
+                  className="p-1 text-gray-400 hover:text-red-600 rounded"
+                  title="Delete secret"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2 mb-4">
+          <h4 className="text-sm font-medium text-gray-700">Add or replace a secret</h4>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name, e.g. openai_prod"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+            />
+            <input
+              type="password"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="Value"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <label className={`flex items-center space-x-2 text-sm ${passphrase ? 'text-gray-700' : 'text-gray-400'}`}>
+            <input type="checkbox" checked={encrypt && !!passphrase} disabled={!passphrase} onChange={(e) => setEncrypt(e.target.checked)} />
+            <span>Encrypt with the vault passphrase{passphrase ? '' : ' (unlock first)'}</span>
+          </label>
+          {nameTaken && <p className="text-xs text-amber-700">Saving replaces the existing secret of this name.</p>}
+        </div>
+
+        {error && (
+          <div className="flex items-start text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2 mb-4">
+            <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-md transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim() || !value}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Save Secret
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
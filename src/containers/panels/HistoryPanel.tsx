@@ -0,0 +1,160 @@
+// src/containers/panels/HistoryPanel.tsx
+
+import React, { useEffect } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { useWorkflowContext } from '../../context/workflowContext';
+import { useHistoryContext } from '../../context/historyContext';
+import { ChangeKind, ElementChange, FieldChange, diffWorkflows, diffLines, isTextChange } from '../../models';
+
+const kindStyles: Record<ChangeKind, string> = {
+  added: 'text-emerald-700 bg-emerald-50',
+  removed: 'text-red-700 bg-red-50',
+  changed: 'text-sky-700 bg-sky-50',
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '—' : typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+
+const FieldChangeView: React.FC<{ change: FieldChange }> = ({ change }) => (
+  <div className="text-xs">
+    <span className="font-mono text-gray-600">{change.path}</span>
+    {isTextChange(change) ? (
+      <pre className="mt-1 p-2 bg-gray-50 border border-gray-200 rounded font-mono whitespace-pre-wrap">
+        {diffLines(change.before as string, change.after as string).map((line, index) => (
+          <div
+            key={index}
+            className={line.kind === 'added' ? 'bg-emerald-100 text-emerald-800' : line.kind === 'removed' ? 'bg-red-100 text-red-800' : 'text-gray-600'}
+          >
+            {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}{line.text}
+          </div>
+        ))}
+      </pre>
+    ) : (
+      <span className="ml-2 font-mono">
+        <span className="text-red-700 line-through">{formatValue(change.before)}</span>
+        {' → '}
+        <span className="text-emerald-700">{formatValue(change.after)}</span>
+      </span>
+    )}
+  </div>
+);
+
+// Saved versions of the current workflow, with restore and a structural diff
+// between any two of them or between one and the canvas.
+export const HistoryPanel: React.FC = () => {
+  const { currentWorkflow, savedWorkflows, restoreVersion, setSelectedNode, setSelectedEdge } = useWorkflowContext();
+  const { isOpen, versions, fromId, toId, close, refresh, setComparison } = useHistoryContext();
+
+  // Reload when opened, when another workflow is loaded, and after each save.
+  const workflowId = currentWorkflow?.id;
+  const savedWorkflow = workflowId ? savedWorkflows[workflowId] : undefined;
+  useEffect(() => {
+    if (isOpen && workflowId) refresh(workflowId);
+  }, [isOpen, workflowId, savedWorkflow, refresh]);
+
+  if (!isOpen || !currentWorkflow) return null;
+
+  const from = versions.find(v => v.id === fromId);
+  const to = versions.find(v => v.id === toId);
+  const diff = from ? diffWorkflows(from.workflow, to ? to.workflow : currentWorkflow) : null;
+  const changeCount = diff ? diff.nodes.length + diff.edges.length : 0;
+
+  // Changes to elements that are on the canvas select them there.
+  const selectChange = (change: ElementChange, isNode: boolean) => {
+    if (isNode) {
+      const node = currentWorkflow.findNode(change.id);
+      if (node) setSelectedNode(node);
+    } else {
+      const edge = currentWorkflow.findEdge(change.id);
+      if (edge) setSelectedEdge(edge);
+    }
+  };
+
+  const renderChanges = (changes: ElementChange[], isNode: boolean) => changes.map(change => (
+    <li key={change.id} className="space-y-1">
+      <button onClick={() => selectChange(change, isNode)} className="flex items-center space-x-2 text-sm hover:underline">
+        <span className={`px-1.5 rounded text-xs font-medium capitalize ${kindStyles[change.kind]}`}>{change.kind}</span>
+        <span className="text-gray-800">{isNode ? 'Node' : 'Edge'} {change.label}</span>
+      </button>
+      {change.fields.length > 0 && (
+        <div className="pl-4 space-y-1">
+          {change.fields.map(field => <FieldChangeView key={field.path} change={field} />)}
+        </div>
+      )}
+    </li>
+  ));
+
+  return (
+    <div className="bg-white border-t border-gray-200 h-72 flex flex-col">
+      <div className="px-4 py-2 flex items-center justify-between border-b border-gray-100">
+        <div className="flex items-center space-x-3 text-sm">
+          <History size={16} className="text-gray-600" />
+          <span className="font-medium text-gray-700">Version History</span>
+          <span className="text-gray-500">{versions.length} saved</span>
+        </div>
+        <button onClick={close} className="text-gray-500 hover:text-gray-800" title="Close history">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Saved versions, newest first */}
+        <ul className="w-64 border-r border-gray-100 overflow-y-auto">
+          {versions.length === 0 && (
+            <li className="px-4 py-3 text-sm text-gray-500">Save the workflow to record its first version.</li>
+          )}
+          {[...versions].reverse().map(version => (
+            <li
+              key={version.id}
+              onClick={() => setComparison(version.id, toId === version.id ? null : toId)}
+              className={`px-4 py-2 text-sm flex items-center justify-between cursor-pointer hover:bg-gray-50 ${version.id === fromId ? 'bg-blue-50' : ''}`}
+            >
+              <div>
+                <div className="text-gray-800">{version.savedAt.toLocaleString()}</div>
+                <div className="text-xs text-gray-500">
+                  {version.workflow.nodes.length} nodes, {version.workflow.edges.length} edges
+                </div>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  restoreVersion(version.workflow);
+                }}
+                className="p-1.5 text-gray-500 hover:text-blue-700 hover:bg-blue-50 rounded"
+                title="Restore this version (undoable)"
+              >
+                <RotateCcw size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {/* Diff between the chosen versions */}
+        <div className="flex-1 overflow-y-auto p-3 space-y-3">
+          {from && (
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>Compare {from.savedAt.toLocaleString()} with</span>
+              <select
+                value={toId || ''}
+                onChange={(e) => setComparison(fromId, e.target.value || null)}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">Current canvas (highlighted)</option>
+                {versions.filter(v => v.id !== fromId).map(version => (
+                  <option key={version.id} value={version.id}>{version.savedAt.toLocaleString()}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {diff && changeCount === 0 && <p className="text-sm text-gray-500">No differences.</p>}
+          {diff && changeCount > 0 && (
+            <ul className="space-y-2">
+              {renderChanges(diff.nodes, true)}
+              {renderChanges(diff.edges, false)}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
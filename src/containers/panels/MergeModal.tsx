@@ -0,0 +1,174 @@
+// src/containers/panels/MergeModal.tsx
+
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle, GitMerge } from 'lucide-react';
+import { useWorkflowContext } from '../../context/workflowContext';
+import {
+  WorkflowMerge,
+  MergeSide,
+  WorkflowImportError,
+  mergeWorkflowData,
+  resolveMerge,
+  isYamlFileName,
+  parseWorkflowYaml,
+} from '../../models';
+
+interface MergeModalProps {
+  onClose: () => void;
+}
+
+type FileRole = 'base' | 'ours' | 'theirs';
+
+const FILE_ROLES: { role: FileRole; label: string; hint: string }[] = [
+  { role: 'base', label: 'Base', hint: 'The common ancestor, e.g. from git merge-base' },
+  { role: 'ours', label: 'Ours', hint: 'Your branch' },
+  { role: 'theirs', label: 'Theirs', hint: 'The branch being merged in' },
+];
+
+const readFile = (file: File) => new Promise<unknown>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => {
+    try {
+      const text = reader.result as string;
+      resolve(isYamlFileName(file.name) ? parseWorkflowYaml(text) : JSON.parse(text));
+    } catch (error) {
+      reject(error);
+    }
+  };
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
+const MergeValue: React.FC<{ value: unknown }> = ({ value }) => {
+  if (value === undefined) return <span className="italic text-gray-500">deleted</span>;
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return <pre className="font-mono text-xs whitespace-pre-wrap break-all">{text}</pre>;
+};
+
+// Merges base/ours/theirs copies of a workflow file. Changes made on only one
+// side are merged automatically; the rest are settled here, one side at a time.
+export const MergeModal: React.FC<MergeModalProps> = ({ onClose }) => {
+  const { loadWorkflow } = useWorkflowContext();
+  const [files, setFiles] = useState<Partial<Record<FileRole, unknown>>>({});
+  const [fileNames, setFileNames] = useState<Partial<Record<FileRole, string>>>({});
+  const [merge, setMerge] = useState<WorkflowMerge | null>(null);
+  const [choices, setChoices] = useState<(MergeSide | undefined)[]>([]);
+  const [error, setError] = useState('');
+
+  const handleFile = async (role: FileRole, file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    try {
+      const data = await readFile(file);
+      const nextFiles = { ...files, [role]: data };
+      setFiles(nextFiles);
+      setFileNames(names => ({ ...names, [role]: file.name }));
+
+      if (nextFiles.base !== undefined && nextFiles.ours !== undefined && nextFiles.theirs !== undefined) {
+        const result = mergeWorkflowData(nextFiles.base, nextFiles.ours, nextFiles.theirs);
+        setMerge(result);
+        setChoices(new Array(result.conflicts.length).fill(undefined));
+      }
+    } catch (err) {
+      setMerge(null);
+      const message = err instanceof WorkflowImportError
+        ? err.issues.map(issue => issue.message).join('; ')
+        : (err as Error).message;
+      setError(`${file.name}: ${message}`);
+    }
+  };
+
+  const unresolved = choices.filter(choice => choice === undefined).length;
+
+  const handleLoad = () => {
+    if (!merge || unresolved > 0) return;
+    try {
+      loadWorkflow(resolveMerge(merge, choices as MergeSide[]));
+      onClose();
+    } catch (err) {
+      setError(`The merged workflow could not be loaded: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[48rem] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <h3 className="text-lg font-semibold mb-2 flex items-center space-x-2">
+          <GitMerge size={18} />
+          <span>Merge Workflow Files</span>
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Pick the common ancestor and both edited copies. Changes made on only one side are merged automatically.
+        </p>
+
+        <div className="grid grid-cols-3 gap-3 mb-4">
+          {FILE_ROLES.map(({ role, label, hint }) => (
+            <label key={role} className="block border border-gray-300 rounded-md p-3 cursor-pointer hover:bg-gray-50" title={hint}>
+              <span className="block text-sm font-medium text-gray-700">{label}</span>
+              <span className="block text-xs text-gray-500 truncate">{fileNames[role] || 'Choose file…'}</span>
+              <input
+                type="file"
+                accept=".json,.yaml,.yml"
+                onChange={(e) => handleFile(role, e.target.files?.[0])}
+                className="hidden"
+              />
+            </label>
+          ))}
+        </div>
+
+        {error && (
+          <div className="flex items-start text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2 mb-4">
+            <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {merge && (
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-3 mb-4">
+            <p className="text-sm text-gray-700 flex items-center">
+              <CheckCircle size={14} className="mr-1 text-green-600" />
+              {merge.mergedChanges} change{merge.mergedChanges === 1 ? '' : 's'} merged automatically,
+              {' '}{merge.conflicts.length} conflict{merge.conflicts.length === 1 ? '' : 's'} to resolve.
+            </p>
+            {merge.conflicts.map((conflict, index) => (
+              <div key={conflict.path.join('/')} className="border border-gray-200 rounded-md p-3">
+                <div className="text-sm font-medium text-gray-800 mb-2">{conflict.label}</div>
+                <div className="text-xs text-gray-500 mb-2">
+                  Base: <MergeValue value={conflict.base} />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['ours', 'theirs'] as MergeSide[]).map(side => (
+                    <button
+                      key={side}
+                      onClick={() => setChoices(current => current.map((choice, i) => i === index ? side : choice))}
+                      className={`text-left p-2 rounded-md border ${choices[index] === side ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                    >
+                      <span className="block text-xs font-medium text-gray-600 mb-1 capitalize">Keep {side}</span>
+                      <MergeValue value={conflict[side]} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleLoad}
+            disabled={!merge || unresolved > 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {merge && unresolved > 0 ? `Resolve ${unresolved} more` : 'Load Merged Workflow'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
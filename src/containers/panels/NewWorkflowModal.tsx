@@ -0,0 +1,148 @@
+// src/containers/panels/NewWorkflowModal.tsx
+
+import React, { useState } from 'react';
+import { AlertCircle, FilePlus, LayoutTemplate, Trash2 } from 'lucide-react';
+import { useWorkflowContext } from '../../context/workflowContext';
+import { useTemplateContext } from '../../context/templateContext';
+import { WorkflowTemplate, getBuiltInTemplates, instantiateTemplate } from '../../models';
+
+interface NewWorkflowModalProps {
+  onClose: () => void;
+}
+
+// Creates a blank workflow, or one from a template after asking for its fields.
+export const NewWorkflowModal: React.FC<NewWorkflowModalProps> = ({ onClose }) => {
+  const { createWorkflow, loadWorkflow } = useWorkflowContext();
+  const { templates, deleteTemplate } = useTemplateContext();
+  const [name, setName] = useState('');
+  const [template, setTemplate] = useState<WorkflowTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  const gallery = [...getBuiltInTemplates(), ...templates];
+
+  const chooseTemplate = (chosen: WorkflowTemplate | null) => {
+    // Name the workflow after the template unless the user already typed a name.
+    if (!name.trim() || name === template?.name) setName(chosen?.name || '');
+    setTemplate(chosen);
+    setValues(chosen ? Object.fromEntries(chosen.fields.map(field => [field.key, field.defaultValue])) : {});
+    setError('');
+  };
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    if (!template) {
+      createWorkflow(name.trim());
+      onClose();
+      return;
+    }
+    try {
+      loadWorkflow(instantiateTemplate(template, values, name.trim()));
+      onClose();
+    } catch (err) {
+      setError(`The template could not be used: ${(err as Error).message}`);
+    }
+  };
+
+  const cardClass = (selected: boolean) => `text-left p-3 rounded-md border transition-colors ${
+    selected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+  }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[44rem] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <h3 className="text-lg font-semibold mb-4">Create New Workflow</h3>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Enter workflow name"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 mb-4"
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          autoFocus
+        />
+
+        <div className="flex-1 min-h-0 overflow-y-auto mb-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Start from</h4>
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            <button onClick={() => chooseTemplate(null)} className={cardClass(template === null)}>
+              <span className="flex items-center space-x-2 text-sm font-medium text-gray-800">
+                <FilePlus size={14} />
+                <span>Blank workflow</span>
+              </span>
+              <span className="block text-xs text-gray-500 mt-1">An empty canvas.</span>
+            </button>
+            {gallery.map(option => (
+              <div key={option.id} className="relative">
+                <button onClick={() => chooseTemplate(option)} className={`w-full h-full ${cardClass(template?.id === option.id)}`}>
+                  <span className="flex items-center space-x-2 text-sm font-medium text-gray-800 pr-6">
+                    <LayoutTemplate size={14} />
+                    <span className="truncate">{option.name}</span>
+                  </span>
+                  <span className="block text-xs text-gray-500 mt-1">
+                    {option.description || `${option.data.nodes?.length || 0} nodes`}
+                    {!option.builtIn && ' · Saved template'}
+                  </span>
+                </button>
+                {!option.builtIn && (
+                  <button
+                    onClick={() => {
+                      if (template?.id === option.id) chooseTemplate(null);
+                      deleteTemplate(option.id);
+                    }}
+                    className="absolute top-2 right-2 p-1 text-gray-400 hover:text-red-600 rounded"
+                    title="Delete template"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {template && template.fields.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-gray-700">Fill in the template</h4>
+              {template.fields.map(field => (
+                <label key={field.key} className="block">
+                  <span className="block text-sm text-gray-700">{field.label}</span>
+                  {field.description && <span className="block text-xs text-gray-500">{field.description}</span>}
+                  <input
+                    type="text"
+                    value={values[field.key] ?? ''}
+                    onChange={(e) => setValues(current => ({ ...current, [field.key]: e.target.value }))}
+                    placeholder={field.defaultValue}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="flex items-start text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2 mb-4">
+            <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Create
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,24 @@
 import React from 'react';
-import { Play, Square, Brain, Wrench, Pause, LogIn } from 'lucide-react';
+import { StickyNote, Group } from 'lucide-react';
 import { useWorkflowContext } from '../../context/workflowContext';
+import { getNodeTypeDefinitions } from '../../models';
+import { getNodeTypeView } from '../nodes/NodeTypeViews';
 
-const nodeTypes = [
-  { type: 'start' as const, label: 'Start', icon: Play, color: 'bg-green-500 hover:bg-green-600' },
-  { type: 'end' as const, label: 'End', icon: Square, color: 'bg-red-500 hover:bg-red-600' },
-  { type: 'llm' as const, label: 'LLM', icon: Brain, color: 'bg-blue-500 hover:bg-blue-600' },
-  { type: 'tool' as const, label: 'Tool', icon: Wrench, color: 'bg-emerald-600 hover:bg-emerald-700' },
-  { type: 'interrupt' as const, label: 'Interrupt', icon: Pause, color: 'bg-yellow-500 hover:bg-yellow-600' },
-  { type: 'userInput' as const, label: 'Input', icon: LogIn, color: 'bg-purple-500 hover:bg-purple-600' },
+// Annotations document the workflow on the canvas and never run.
+const annotationTypes = [
+  { type: 'note' as const, label: 'Sticky Note', icon: StickyNote, color: 'bg-yellow-400 hover:bg-yellow-500' },
+  { type: 'group' as const, label: 'Group', icon: Group, color: 'bg-sky-500 hover:bg-sky-600' },
 ];
 
 export const NodePanel: React.FC = () => {
   const { canAddNode } = useWorkflowContext();
 
+  // Every registered node type, in registration order.
+  const nodeTypes = getNodeTypeDefinitions().map(({ type, label }) => {
+    const { icon, colors } = getNodeTypeView(type);
+    return { type, label, icon, color: colors.palette };
+  });
+
   const handleDragStart = (event: React.DragEvent, nodeType: string) => {
     event.dataTransfer.setData('application/reactflow', nodeType);
     event.dataTransfer.effectAllowed = 'move';
@@ -50,12 +55,32 @@ export const NodePanel: React.FC = () => {
           </div>
         ))}
       </div>
+
+      <h3 className="text-lg font-semibold mt-6 mb-4 text-gray-900">Annotations</h3>
+      <div className="space-y-2">
+        {annotationTypes.map(({ type, label, icon: Icon, color }) => (
+          <div
+            key={type}
+            className={`
+              ${color} text-white p-3 rounded-lg transition-colors duration-200
+              flex items-center space-x-3
+              cursor-grab active:cursor-grabbing hover:shadow-md transform hover:scale-105
+            `}
+            draggable
+            onDragStart={(event) => handleDragStart(event, type)}
+          >
+            <Icon size={20} />
+            <span className="font-medium">{label}</span>
+          </div>
+        ))}
+      </div>
       
       <div className="mt-8">
         <h4 className="text-sm font-medium text-gray-700 mb-2">Instructions</h4>
         <p className="text-xs text-gray-600 leading-relaxed">
           Drag and drop nodes onto the canvas to build your workflow. 
           Connect nodes by dragging from the bottom handle to the top handle of another node.
+          Nodes dropped inside a group move with it when it is dragged by its title.
         </p>
       </div>
     </div>
@@ -3,11 +3,10 @@
 import React from 'react';
 import { X,Trash2 } from 'lucide-react';
 import { useWorkflowContext } from '../../context/workflowContext';
-import { LLMNodeProperties } from '../properties/LLMNodeProperties';
-import { ToolNodeProperties } from '../properties/ToolNodeProperties';
-import { InterruptNodeProperties } from '../properties/InterupptNodeProperties';
-import { InputNodeProperties } from '../properties/InputNodeProperties';
+import { getNodeTypeView } from '../nodes/NodeTypeViews';
 import { EdgeProperties } from '../properties/EdgeProperties';
+import { PortTypesEditor } from '../properties/PortTypesEditor';
+import { ExecutionPolicyEditor } from '../properties/ExecutionPolicyEditor';
 
 export const PropertiesPanel: React.FC = () => {
   const { selectedNode, selectedEdge, setSelectedNode, setSelectedEdge,updateNode, updateEdge, deleteNode } = useWorkflowContext();
@@ -29,19 +28,12 @@ export const PropertiesPanel: React.FC = () => {
   const renderNodeProperties = () => {
     if (!selectedNode) return null;
 
-    // The "switch" statement acts as a dispatcher
-    switch (selectedNode.type) {
-      case 'llm':
-        return <LLMNodeProperties node={selectedNode} />;
-      case 'tool':
-        return <ToolNodeProperties node={selectedNode} />;
-      case 'interrupt':
-        return <InterruptNodeProperties node={selectedNode} />;
-      case 'userInput':
-        return <InputNodeProperties node={selectedNode} />; 
-      default:
-        return <p className="text-sm text-gray-500">This node has no specific properties to configure.</p>;
+    // Each node type registers its own properties component, if it has settings of its own
+    const TypeProperties = getNodeTypeView(selectedNode.type).properties;
+    if (!TypeProperties) {
+      return <p className="text-sm text-gray-500">This node has no specific properties to configure.</p>;
     }
+    return <TypeProperties node={selectedNode} />;
   };
 
   const renderContent = () => {
@@ -75,6 +67,8 @@ export const PropertiesPanel: React.FC = () => {
 
           {/* Render the specific properties for the selected node type */}
           {renderNodeProperties()}
+          <PortTypesEditor node={selectedNode} />
+          <ExecutionPolicyEditor node={selectedNode} />
           <div className="mt-6 pt-6 border-t border-gray-200">
             <button
               onClick={handleDeleteNode}
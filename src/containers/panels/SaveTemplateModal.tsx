@@ -0,0 +1,115 @@
+// src/containers/panels/SaveTemplateModal.tsx
+
+import React, { useMemo, useState } from 'react';
+import { LayoutTemplate } from 'lucide-react';
+import { useWorkflowContext } from '../../context/workflowContext';
+import { useTemplateContext } from '../../context/templateContext';
+import { TemplateField, createTemplate, findPlaceholders } from '../../models';
+
+interface SaveTemplateModalProps {
+  onClose: () => void;
+}
+
+// Saves the current workflow as a template. Every `{{placeholder}}` in it
+// becomes a field that is asked for when the template is used.
+export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({ onClose }) => {
+  const { currentWorkflow } = useWorkflowContext();
+  const { saveTemplate } = useTemplateContext();
+  const [name, setName] = useState(currentWorkflow?.name || '');
+  const [description, setDescription] = useState(currentWorkflow?.description || '');
+  const [fields, setFields] = useState<Record<string, Partial<TemplateField>>>({});
+
+  const placeholders = useMemo(
+    () => (currentWorkflow ? findPlaceholders(currentWorkflow.toExportObject()) : []),
+    [currentWorkflow]
+  );
+
+  const updateField = (key: string, changes: Partial<TemplateField>) =>
+    setFields(current => ({ ...current, [key]: { ...current[key], ...changes } }));
+
+  const handleSave = () => {
+    if (!currentWorkflow || !name.trim()) return;
+    saveTemplate(createTemplate(
+      currentWorkflow, name.trim(), description.trim(),
+      placeholders.map(key => ({ ...fields[key], key }))
+    ));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[36rem] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+          <LayoutTemplate size={18} />
+          <span>Save as Template</span>
+        </h3>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-3 mb-4">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Template name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            autoFocus
+          />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What the template is for"
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-1">Fields</h4>
+            {placeholders.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                Write <code className="px-1 bg-gray-100 rounded">{'{{name}}'}</code> in any prompt, endpoint,
+                condition or note to turn it into a field that is asked for when the template is used.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {placeholders.map(key => (
+                  <div key={key} className="grid grid-cols-3 gap-2 items-center">
+                    <code className="text-xs text-gray-600 truncate">{`{{${key}}}`}</code>
+                    <input
+                      type="text"
+                      value={fields[key]?.label || ''}
+                      onChange={(e) => updateField(key, { label: e.target.value })}
+                      placeholder="Label"
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={fields[key]?.defaultValue || ''}
+                      onChange={(e) => updateField(key, { defaultValue: e.target.value })}
+                      placeholder="Default value"
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Save Template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+// src/containers/panels/SimulationPanel.tsx
+
+import React from 'react';
+import { Bug, X } from 'lucide-react';
+import { useWorkflowContext } from '../../context/workflowContext';
+import { useSimulationContext } from '../../context/simulationContext';
+
+const statusColors: Record<string, string> = {
+  idle: 'text-gray-600',
+  running: 'text-blue-600',
+  paused: 'text-yellow-600',
+  completed: 'text-green-600',
+  failed: 'text-red-600',
+};
+
+// Live state inspector for the in-browser simulator: one row per executed node
+// with the inputs it resolved and the outputs it produced, plus the run log.
+export const SimulationPanel: React.FC = () => {
+  const { currentWorkflow, setSelectedNode } = useWorkflowContext();
+  const { state, simulator, startInput, start, stop, setStartInput } = useSimulationContext();
+
+  if (!currentWorkflow || !state || !simulator) return null;
+
+  const nextNodeId = simulator.nextNodeId(state);
+  const labelOf = (nodeId?: string) =>
+    (nodeId && simulator.workflow.findNode(nodeId)?.data.label) || nodeId || '';
+
+  const selectNode = (nodeId: string) => {
+    const node = currentWorkflow.findNode(nodeId);
+    if (node) setSelectedNode(node);
+  };
+
+  return (
+    <div className="bg-white border-t border-gray-200 h-64 flex flex-col">
+      <div className="px-4 py-2 flex items-center justify-between border-b border-gray-100">
+        <div className="flex items-center space-x-3 text-sm">
+          <Bug size={16} className="text-gray-600" />
+          <span className="font-medium text-gray-700">Simulation</span>
+          <span className={`font-medium capitalize ${statusColors[state.status]}`}>{state.status}</span>
+          {nextNodeId && !simulator.isFinished(state) && (
+            <span className="text-gray-500">Next: {labelOf(nextNodeId)}</span>
+          )}
+        </div>
+        <button onClick={stop} className="text-gray-500 hover:text-gray-800" title="Close simulation">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Node state inspector */}
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {Object.keys(state.nodeStates).length === 0 && (
+            <div className="space-y-2">
+              <label className="block text-xs font-medium text-gray-600">Start input</label>
+              <input
+                type="text"
+                value={startInput}
+                onChange={(e) => {
+                  // The start value is baked into the simulator, so re-arm it with the new one.
+                  setStartInput(e.target.value);
+                  start(simulator.workflow);
+                }}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                placeholder="Value emitted by the Start node"
+              />
+              <p className="text-sm text-gray-500">No nodes executed yet. Use Step or Run in the toolbar.</p>
+            </div>
+          )}
+          {Object.entries(state.nodeStates).map(([nodeId, nodeState]) => (
+            <div
+              key={nodeId}
+              onClick={() => selectNode(nodeId)}
+              className="border border-gray-200 rounded-md p-2 text-xs cursor-pointer hover:bg-gray-50"
+            >
+              <div className="flex justify-between mb-1">
+                <span className="font-medium text-gray-800">{labelOf(nodeId)}</span>
+                <span className={nodeState.status === 'failed' ? 'text-red-600' : 'text-green-600'}>
+                  {nodeState.status} {nodeState.runCount > 1 && `(×${nodeState.runCount})`}
+                </span>
+              </div>
+              {nodeState.error && <p className="text-red-600 mb-1">{nodeState.error}</p>}
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <span className="text-gray-500">Inputs</span>
+                  <pre className="bg-gray-50 rounded p-1 overflow-x-auto">{JSON.stringify(nodeState.inputs, null, 2)}</pre>
+                </div>
+                <div>
+                  <span className="text-gray-500">Outputs</span>
+                  <pre className="bg-gray-50 rounded p-1 overflow-x-auto">{JSON.stringify(nodeState.outputs, null, 2)}</pre>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Run log */}
+        <div className="w-72 border-l border-gray-100 overflow-y-auto p-3">
+          <h5 className="text-xs font-semibold text-gray-700 mb-2">Log</h5>
+          <ul className="space-y-1">
+            {state.log.map((entry, index) => (
+              <li key={index} className="text-xs text-gray-700">
+                <span className="text-gray-400 mr-1">{entry.timestamp.toLocaleTimeString()}</span>
+                {entry.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
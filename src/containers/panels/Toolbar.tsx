@@ -1,31 +1,92 @@
-import React, { useState } from 'react';
-import { Save, FileText, Plus, Download, Upload } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Save, FileText, FileCode, Network, Copy, Check, Plus, Download, Upload, Bug, Play, Pause, StepForward, Square, RotateCcw, AlertCircle, Wrench, ChevronRight, Undo2, Redo2, History, GitMerge, LayoutGrid, LayoutTemplate, KeyRound } from 'lucide-react';
 import { useWorkflowContext } from '../../context/workflowContext';
-import { Workflow } from '../../models';
+import { useSimulationContext } from '../../context/simulationContext';
+import { useHistoryContext } from '../../context/historyContext';
+import { MergeModal } from './MergeModal';
+import { NewWorkflowModal } from './NewWorkflowModal';
+import { SaveTemplateModal } from './SaveTemplateModal';
+import { CredentialsModal } from './CredentialsModal';
+import {
+  Workflow,
+  isBackendWorkflow,
+  migrateWorkflowData,
+  validateImportData,
+  repairImportData,
+  ImportIssue,
+  WorkflowImportError,
+  DiagramFormat,
+  isYamlFileName,
+  parseWorkflowYaml,
+  redactWorkflowData,
+} from '../../models';
+
+interface ImportNotice {
+  title: string;
+  description: string;
+  items: string[];
+}
+
+interface ImportReport {
+  data: unknown;
+  issues: ImportIssue[];
+}
 
 export const Toolbar: React.FC = () => {
   const [showNewWorkflowModal, setShowNewWorkflowModal] = useState(false);
-  const [newWorkflowName, setNewWorkflowName] = useState('');
+  const [showSaveTemplateModal, setShowSaveTemplateModal] = useState(false);
+  const [showCredentialsModal, setShowCredentialsModal] = useState(false);
+  const [importNotice, setImportNotice] = useState<ImportNotice | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [diagramFormat, setDiagramFormat] = useState<DiagramFormat | null>(null);
+  const [diagramCopied, setDiagramCopied] = useState(false);
+  const [showMergeModal, setShowMergeModal] = useState(false);
   const { 
     currentWorkflow, 
     workflows, 
-    createWorkflow, 
     loadWorkflow, 
-    saveWorkflow
+    saveWorkflow,
+    addWorkflows,
+    parentWorkflowIds,
+    closeSubworkflow,
+    past,
+    future,
+    undo,
+    redo,
+    hasUnsavedChanges,
+    autosavedWorkflows,
+    recoveredDrafts,
+    restoreDrafts,
+    discardDrafts,
+    selectedNodeIds,
+    autoArrange
   } = useWorkflowContext();
+  const simulation = useSimulationContext();
+  const history = useHistoryContext();
+  const isSimulating = simulation.state !== null;
+  const isRunning = simulation.state?.status === 'running';
+  const isFinished = simulation.state?.status === 'completed' || simulation.state?.status === 'failed';
+  const isDirty = currentWorkflow !== null && hasUnsavedChanges(currentWorkflow);
+  const isDraftStored = currentWorkflow !== null && autosavedWorkflows[currentWorkflow.id] === currentWorkflow;
 
-  const handleCreateWorkflow = () => {
-    if (newWorkflowName.trim()) {
-      createWorkflow(newWorkflowName.trim());
-      setNewWorkflowName('');
-      setShowNewWorkflowModal(false);
-    }
-  };
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS). Text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      e.preventDefault();
+      if (e.shiftKey) redo(); else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   const handleExport = () => {
     if (currentWorkflow) {
-      // Use the workflow's built-in export method for proper serialization
-      const exportData = currentWorkflow.toExportObject();
+      // Use the workflow's built-in export method for proper serialization; the
+      // downloaded file keeps `secret:` references but never literal credentials
+      const exportData = redactWorkflowData(currentWorkflow.toExportObject());
       
       console.log('Exporting workflow with config data:', exportData);
       
@@ -41,9 +102,26 @@ export const Toolbar: React.FC = () => {
     }
   };
 
+  const handleExportYaml = () => {
+    if (currentWorkflow) {
+      const dataUri = 'data:application/yaml;charset=utf-8,' + encodeURIComponent(currentWorkflow.toYaml());
+      const exportFileDefaultName = `${currentWorkflow.name.replace(/\s+/g, '_')}.yaml`;
+      const linkElement = document.createElement('a');
+      linkElement.setAttribute('href', dataUri);
+      linkElement.setAttribute('download', exportFileDefaultName);
+      linkElement.click();
+    }
+  };
+
   const handleExportToBackend = () => {
     if (currentWorkflow) {
-      const exportData = currentWorkflow.toBackendExportObject();
+      // The backend cannot run a structurally broken graph, so refuse to export one.
+      const errors = currentWorkflow.validate(workflows).filter(d => d.severity === 'error');
+      if (errors.length > 0) {
+        alert(`Cannot export to backend. Fix these errors first:\n\n${errors.map(e => `• ${e.message}`).join('\n')}`);
+        return;
+      }
+      const exportData = currentWorkflow.toBackendExportObject(workflows);
       console.log('Exporting workflow to backend format:', exportData);
       const dataStr = JSON.stringify(exportData, null, 2);
       const dataUri = 'data:application/json;charset=utf-8,' + encodeURIComponent(dataStr);
@@ -55,23 +133,113 @@ export const Toolbar: React.FC = () => {
     }
   };
 
+  const handleExportToLangGraph = () => {
+    if (currentWorkflow) {
+      const errors = currentWorkflow.validate().filter(d => d.severity === 'error');
+      if (errors.length > 0) {
+        alert(`Cannot generate Python code. Fix these errors first:\n\n${errors.map(e => `• ${e.message}`).join('\n')}`);
+        return;
+      }
+      const code = currentWorkflow.toLangGraphCode();
+      const dataUri = 'data:text/x-python;charset=utf-8,' + encodeURIComponent(code);
+      const exportFileDefaultName = `${currentWorkflow.name.replace(/\W+/g, '_').toLowerCase()}_graph.py`;
+      const linkElement = document.createElement('a');
+      linkElement.setAttribute('href', dataUri);
+      linkElement.setAttribute('download', exportFileDefaultName);
+      linkElement.click();
+    }
+  };
+
+  const diagramSource = currentWorkflow && diagramFormat
+    ? (diagramFormat === 'mermaid' ? currentWorkflow.toMermaid() : currentWorkflow.toDot())
+    : '';
+
+  const handleCopyDiagram = async () => {
+    await navigator.clipboard.writeText(diagramSource);
+    setDiagramCopied(true);
+    setTimeout(() => setDiagramCopied(false), 2000);
+  };
+
+  // Editor files are validated before anything is loaded; problems are listed
+  // in the import report instead of failing the whole import.
+  const importEditorFile = (data: unknown, repairs: string[] = []) => {
+    const issues = validateImportData(data);
+    if (issues.length > 0) {
+      setImportReport({ data, issues });
+      return;
+    }
+    // Upgrade files saved by older editor versions and tell the user what changed
+    const { applied, unboundEdges } = migrateWorkflowData(data as Record<string, unknown>);
+    const workflow = Workflow.fromImportData(data);
+    loadWorkflow(workflow);
+
+    if (repairs.length > 0) {
+      setImportNotice({
+        title: 'Workflow file repaired',
+        description: 'The following problems were fixed while importing:',
+        items: repairs,
+      });
+    } else if (applied.length > 0) {
+      setImportNotice({
+        title: 'Workflow file upgraded',
+        description: 'This file was saved by an older version of the editor. The following migrations were applied:',
+        items: [
+          ...applied.map(m => `v${m.from} → v${m.to}: ${m.description}`),
+          ...unboundEdges.map(edge => {
+            const nodeName = (id: string) => workflow.findNode(id)?.data.label || id;
+            return `Edge ${nodeName(edge.source)} → ${nodeName(edge.target)} could not be bound to a port; connect it to an input by hand`;
+          }),
+        ],
+      });
+    }
+  };
+
+  const handleRepairImport = () => {
+    if (!importReport) return;
+    const { data, repairs } = repairImportData(importReport.data as Record<string, unknown>);
+    setImportReport(null);
+    importEditorFile(data, repairs);
+  };
+
   const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       const reader = new FileReader();
       reader.onload = (e) => {
+        // The editor format can be written as JSON or YAML; the extension tells them apart.
+        const isYaml = isYamlFileName(file.name);
+        let importedData: unknown;
         try {
-          const importedData = JSON.parse(e.target?.result as string);
-          console.log('Importing workflow with data:', importedData);
-          
-          // Use the static method to create workflow from imported data
-          const workflow = Workflow.fromImportData(importedData);
-          
-          console.log('Reconstructed workflow:', workflow);
-          loadWorkflow(workflow);
+          const text = e.target?.result as string;
+          importedData = isYaml ? parseWorkflowYaml(text) : JSON.parse(text);
+        } catch (error) {
+          setImportReport({
+            data: null,
+            issues: [{ path: '$', message: `File is not valid ${isYaml ? 'YAML' : 'JSON'}: ${(error as Error).message}`, repairable: false }],
+          });
+          return;
+        }
+        console.log('Importing workflow with data:', importedData);
+
+        try {
+          // Files from the backend repo have their own format and no node positions
+          if (isBackendWorkflow(importedData)) {
+            const workflow = Workflow.fromBackendExport(importedData);
+            console.log('Reconstructed workflow:', workflow);
+            // Named subgraphs become workflows of their own so subworkflow nodes resolve
+            addWorkflows(Workflow.subgraphsFromBackendExport(importedData));
+            loadWorkflow(workflow);
+          } else {
+            importEditorFile(importedData);
+          }
         } catch (error) {
           console.error('Error importing workflow:', error);
-          alert('Invalid workflow file');
+          setImportReport({
+            data: importedData,
+            issues: error instanceof WorkflowImportError
+              ? error.issues
+              : [{ path: '$', message: (error as Error).message, repairable: false }],
+          });
         }
       };
       reader.readAsText(file);
@@ -89,7 +257,26 @@ export const Toolbar: React.FC = () => {
             {currentWorkflow && (
               <div className="flex items-center space-x-2">
                 <FileText size={16} className="text-gray-500" />
+                {/* Breadcrumbs back to the workflows this subworkflow was opened from */}
+                {parentWorkflowIds.map(parentId => (
+                  <React.Fragment key={parentId}>
+                    <button
+                      onClick={() => closeSubworkflow(parentId)}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {workflows.find(w => w.id === parentId)?.name || 'Workflow'}
+                    </button>
+                    <ChevronRight size={14} className="text-gray-400" />
+                  </React.Fragment>
+                ))}
                 <span className="text-gray-700 font-medium">{currentWorkflow.name}</span>
+                <span
+                  className={`flex items-center space-x-1 text-xs ${isDirty ? 'text-amber-600' : 'text-gray-400'}`}
+                  title={isDirty ? 'Changes are autosaved as a local draft until you save' : 'Saved in this browser'}
+                >
+                  <span className={`w-2 h-2 rounded-full ${isDirty ? 'bg-amber-500' : 'bg-gray-300'}`} />
+                  <span>{isDirty ? (isDraftStored ? 'Unsaved changes (draft kept)' : 'Unsaved changes') : 'Saved'}</span>
+                </span>
               </div>
             )}
           </div>
@@ -105,6 +292,25 @@ export const Toolbar: React.FC = () => {
 
             {currentWorkflow && (
               <>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={undo}
+                    disabled={past.length === 0}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-md disabled:opacity-40 disabled:hover:bg-transparent"
+                    title="Undo (Ctrl+Z)"
+                  >
+                    <Undo2 size={16} />
+                  </button>
+                  <button
+                    onClick={redo}
+                    disabled={future.length === 0}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-md disabled:opacity-40 disabled:hover:bg-transparent"
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    <Redo2 size={16} />
+                  </button>
+                </div>
+
                 <button
                   onClick={saveWorkflow}
                   className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 flex items-center space-x-2 transition-colors"
@@ -121,6 +327,91 @@ export const Toolbar: React.FC = () => {
                   <span>Export</span>
                 </button>
 
+                <button
+                  onClick={handleExportYaml}
+                  className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 flex items-center space-x-2 transition-colors"
+                  title="Export in the editor format as YAML, for readable diffs in git"
+                >
+                  <FileText size={16} />
+                  <span>Export YAML</span>
+                </button>
+
+                <div className="flex items-center">
+                  <button
+                    onClick={() => autoArrange()}
+                    className={`bg-gray-600 text-white px-4 py-2 hover:bg-gray-700 flex items-center space-x-2 transition-colors ${selectedNodeIds.length > 1 ? 'rounded-l-md' : 'rounded-md'}`}
+                    title="Lay out the whole workflow top to bottom"
+                  >
+                    <LayoutGrid size={16} />
+                    <span>Auto-arrange</span>
+                  </button>
+                  {selectedNodeIds.length > 1 && (
+                    <button
+                      onClick={() => autoArrange(selectedNodeIds)}
+                      className="bg-gray-700 text-white px-3 py-2 rounded-r-md hover:bg-gray-800 border-l border-gray-500 transition-colors"
+                      title="Lay out only the selected nodes, where they are"
+                    >
+                      Selection
+                    </button>
+                  )}
+                </div>
+
+                <button
+                  onClick={history.toggle}
+                  className={`px-4 py-2 rounded-md flex items-center space-x-2 transition-colors ${history.isOpen ? 'bg-gray-700 text-white' : 'bg-gray-600 text-white hover:bg-gray-700'}`}
+                  title="Saved versions of this workflow"
+                >
+                  <History size={16} />
+                  <span>History</span>
+                </button>
+
+                {/* Simulator controls */}
+                {!isSimulating ? (
+                  <button
+                    onClick={() => simulation.start(currentWorkflow)}
+                    className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 flex items-center space-x-2 transition-colors"
+                    title="Dry-run this workflow with mock executors"
+                  >
+                    <Bug size={16} />
+                    <span>Simulate</span>
+                  </button>
+                ) : (
+                  <div className="flex items-center space-x-1 border border-indigo-200 rounded-md p-1">
+                    {isRunning ? (
+                      <button onClick={simulation.pause} className="p-1.5 text-indigo-700 hover:bg-indigo-50 rounded" title="Pause">
+                        <Pause size={16} />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={simulation.run}
+                        disabled={isFinished}
+                        className="p-1.5 text-indigo-700 hover:bg-indigo-50 rounded disabled:opacity-40"
+                        title="Run until the next breakpoint"
+                      >
+                        <Play size={16} />
+                      </button>
+                    )}
+                    <button
+                      onClick={simulation.step}
+                      disabled={isRunning || isFinished}
+                      className="p-1.5 text-indigo-700 hover:bg-indigo-50 rounded disabled:opacity-40"
+                      title="Step"
+                    >
+                      <StepForward size={16} />
+                    </button>
+                    <button
+                      onClick={() => simulation.start(currentWorkflow)}
+                      className="p-1.5 text-indigo-700 hover:bg-indigo-50 rounded"
+                      title="Restart"
+                    >
+                      <RotateCcw size={16} />
+                    </button>
+                    <button onClick={simulation.stop} className="p-1.5 text-red-600 hover:bg-red-50 rounded" title="Stop">
+                      <Square size={16} />
+                    </button>
+                  </div>
+                )}
+
                 <button
                   onClick={handleExportToBackend}
                   className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 flex items-center space-x-2 transition-colors"
@@ -129,6 +420,24 @@ export const Toolbar: React.FC = () => {
                   <span>Export to Backend</span>
                 </button>
 
+                <button
+                  onClick={handleExportToLangGraph}
+                  className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 flex items-center space-x-2 transition-colors"
+                  title="Download a Python module that runs this workflow with LangGraph"
+                >
+                  <FileCode size={16} />
+                  <span>Export Python</span>
+                </button>
+
+                <button
+                  onClick={() => setDiagramFormat('mermaid')}
+                  className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 flex items-center space-x-2 transition-colors"
+                  title="Preview the workflow as Mermaid or Graphviz diagram source"
+                >
+                  <Network size={16} />
+                  <span>Diagram</span>
+                </button>
+
               </>
             )}
 
@@ -137,12 +446,41 @@ export const Toolbar: React.FC = () => {
               <span>Import</span>
               <input
                 type="file"
-                accept=".json"
+                accept=".json,.yaml,.yml"
                 onChange={handleImport}
                 className="hidden"
               />
             </label>
 
+            {currentWorkflow && (
+              <button
+                onClick={() => setShowSaveTemplateModal(true)}
+                className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 flex items-center space-x-2 transition-colors"
+                title="Save this workflow as a reusable template"
+              >
+                <LayoutTemplate size={16} />
+                <span>Save as Template</span>
+              </button>
+            )}
+
+            <button
+              onClick={() => setShowMergeModal(true)}
+              className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 flex items-center space-x-2 transition-colors"
+              title="Three-way merge of workflow files edited on two branches"
+            >
+              <GitMerge size={16} />
+              <span>Merge</span>
+            </button>
+
+            <button
+              onClick={() => setShowCredentialsModal(true)}
+              className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 flex items-center space-x-2 transition-colors"
+              title="Named secrets that nodes reference instead of holding keys"
+            >
+              <KeyRound size={16} />
+              <span>Credentials</span>
+            </button>
+
             {workflows.length > 0 && (
               <select
                 value={currentWorkflow?.id || ''}
@@ -164,41 +502,162 @@ export const Toolbar: React.FC = () => {
         </div>
       </div>
 
-      {/* New Workflow Modal */}
-      {showNewWorkflowModal && (
+      {/* Import Error Report */}
+      {importReport && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-[36rem] max-h-[80vh] flex flex-col">
+            <h3 className="text-lg font-semibold mb-2 flex items-center space-x-2">
+              <AlertCircle size={20} className="text-red-500" />
+              <span>Invalid workflow file</span>
+            </h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {importReport.issues.length} problem{importReport.issues.length === 1 ? '' : 's'} found.
+              {importReport.issues.every(issue => issue.repairable)
+                ? ' All of them can be repaired automatically.'
+                : ' Problems marked as not repairable must be fixed in the file.'}
+            </p>
+            <ul className="overflow-y-auto text-sm divide-y divide-gray-100 border border-gray-200 rounded-md mb-4">
+              {importReport.issues.map((issue, index) => (
+                <li key={index} className="px-3 py-2 flex items-start space-x-3">
+                  <code className="text-xs bg-gray-100 text-gray-700 px-1.5 py-0.5 rounded whitespace-nowrap">{issue.path}</code>
+                  <span className="flex-1 text-gray-800">{issue.message}</span>
+                  {issue.repairable ? (
+                    <span className="text-xs text-green-700">repairable</span>
+                  ) : (
+                    <span className="text-xs text-red-600">not repairable</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setImportReport(null)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-md transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRepairImport}
+                disabled={!importReport.issues.every(issue => issue.repairable)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 transition-colors"
+              >
+                <Wrench size={16} />
+                <span>Repair and Import</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Import Notice */}
+      {importNotice && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-[28rem]">
+            <h3 className="text-lg font-semibold mb-2">{importNotice.title}</h3>
+            <p className="text-sm text-gray-600 mb-4">{importNotice.description}</p>
+            <ul className="list-disc list-inside text-sm text-gray-800 space-y-1 mb-4">
+              {importNotice.items.map((item, index) => (
+                <li key={index}>{item}</li>
+              ))}
+            </ul>
+            <div className="flex justify-end">
+              <button
+                onClick={() => setImportNotice(null)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                OK
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showMergeModal && <MergeModal onClose={() => setShowMergeModal(false)} />}
+
+      {/* Draft Recovery Modal */}
+      {recoveredDrafts.length > 0 && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-96">
-            <h3 className="text-lg font-semibold mb-4">Create New Workflow</h3>
-            <input
-              type="text"
-              value={newWorkflowName}
-              onChange={(e) => setNewWorkflowName(e.target.value)}
-              placeholder="Enter workflow name"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 mb-4"
-              onKeyDown={(e) => e.key === 'Enter' && handleCreateWorkflow()}
-              autoFocus
-            />
+          <div className="bg-white rounded-lg p-6 w-[28rem]">
+            <h3 className="text-lg font-semibold mb-2">Recover unsaved changes?</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              The last session ended before these workflows were saved. Their autosaved drafts can be restored:
+            </p>
+            <ul className="list-disc list-inside text-sm text-gray-800 space-y-1 mb-4">
+              {recoveredDrafts.map(draft => (
+                <li key={draft.workflow.id}>
+                  {draft.workflow.name} <span className="text-gray-500">— {draft.savedAt.toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={discardDrafts}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-md transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={restoreDrafts}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Restore
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Diagram Preview Modal */}
+      {diagramFormat && currentWorkflow && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-[40rem] max-w-[90vw]">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Diagram Source</h3>
+              <div className="flex border border-gray-300 rounded-md overflow-hidden text-sm">
+                {(['mermaid', 'dot'] as DiagramFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => {
+                      setDiagramFormat(format);
+                      setDiagramCopied(false);
+                    }}
+                    className={`px-3 py-1 ${diagramFormat === format ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    {format === 'mermaid' ? 'Mermaid' : 'Graphviz DOT'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <pre className="bg-gray-50 border border-gray-200 rounded-md p-3 text-xs font-mono max-h-96 overflow-auto whitespace-pre mb-4">
+              {diagramSource}
+            </pre>
             <div className="flex justify-end space-x-2">
               <button
                 onClick={() => {
-                  setShowNewWorkflowModal(false);
-                  setNewWorkflowName('');
+                  setDiagramFormat(null);
+                  setDiagramCopied(false);
                 }}
                 className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-md transition-colors"
               >
-                Cancel
+                Close
               </button>
               <button
-                onClick={handleCreateWorkflow}
-                disabled={!newWorkflowName.trim()}
-                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                onClick={handleCopyDiagram}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center space-x-2 transition-colors"
               >
-                Create
+                {diagramCopied ? <Check size={16} /> : <Copy size={16} />}
+                <span>{diagramCopied ? 'Copied' : 'Copy to Clipboard'}</span>
               </button>
             </div>
           </div>
         </div>
       )}
+
+      {showNewWorkflowModal && <NewWorkflowModal onClose={() => setShowNewWorkflowModal(false)} />}
+
+      {showSaveTemplateModal && <SaveTemplateModal onClose={() => setShowSaveTemplateModal(false)} />}
+
+      {showCredentialsModal && <CredentialsModal onClose={() => setShowCredentialsModal(false)} />}
     </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,75 @@
+// src/containers/panels/ValidationPanel.tsx
+
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { useWorkflowContext } from '../../context/workflowContext';
+import { WorkflowDiagnostic } from '../../models';
+
+export const ValidationPanel: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const { currentWorkflow, workflows, setSelectedNode, setSelectedEdge } = useWorkflowContext();
+
+  if (!currentWorkflow) return null;
+
+  const diagnostics = currentWorkflow.validate(workflows);
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  // Selecting the offending element brings up its properties for fixing.
+  const handleDiagnosticClick = (diagnostic: WorkflowDiagnostic) => {
+    if (diagnostic.nodeId) {
+      const node = currentWorkflow.findNode(diagnostic.nodeId);
+      if (node) setSelectedNode(node);
+    } else if (diagnostic.edgeId) {
+      const edge = currentWorkflow.findEdge(diagnostic.edgeId);
+      if (edge) setSelectedEdge(edge);
+    }
+  };
+
+  return (
+    <div className="bg-white border-t border-gray-200">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-4 py-2 flex items-center justify-between text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        <div className="flex items-center space-x-4">
+          <span>Validation</span>
+          {diagnostics.length === 0 ? (
+            <span className="flex items-center text-green-600">
+              <CheckCircle size={14} className="mr-1" /> No problems
+            </span>
+          ) : (
+            <>
+              <span className="flex items-center text-red-600">
+                <AlertCircle size={14} className="mr-1" /> {errorCount}
+              </span>
+              <span className="flex items-center text-yellow-600">
+                <AlertTriangle size={14} className="mr-1" /> {warningCount}
+              </span>
+            </>
+          )}
+        </div>
+        {isExpanded ? <ChevronDown size={16} /> : <ChevronUp size={16} />}
+      </button>
+
+      {isExpanded && diagnostics.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto border-t border-gray-100">
+          {diagnostics.map((diagnostic, index) => (
+            <li
+              key={index}
+              onClick={() => handleDiagnosticClick(diagnostic)}
+              className="px-4 py-1.5 text-sm flex items-center cursor-pointer hover:bg-gray-50"
+            >
+              {diagnostic.severity === 'error' ? (
+                <AlertCircle size={14} className="mr-2 text-red-600 flex-shrink-0" />
+              ) : (
+                <AlertTriangle size={14} className="mr-2 text-yellow-600 flex-shrink-0" />
+              )}
+              <span className="text-gray-800">{diagnostic.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
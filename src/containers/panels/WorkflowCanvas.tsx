@@ -1,4 +1,4 @@
-import React, { useCallback, useRef } from 'react';
+import React, { useCallback, useMemo, useRef } from 'react';
 import {
   ReactFlow,
   Background,
@@ -9,60 +9,119 @@ import {
   Connection,
   Edge,
   Node,
+  NodeTypes,
   OnConnect,
   OnNodesChange,
+  OnSelectionChangeParams,
   BackgroundVariant,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 
-import { StartNode } from '../nodes/StartNode';
-import { EndNode } from '../nodes/EndNode';
-import { LLMNode } from '../nodes/LLMNode';
-import { ToolNode } from '../nodes/ToolNode';
-import { InterruptNode } from '../nodes/InterruptNode';
-import { InputNode } from '../nodes/InputNode';
+import { RegisteredNode } from '../nodes/RegisteredNode';
+import { getNodeTypeView } from '../nodes/NodeTypeViews';
+import { NoteNode } from '../nodes/NoteNode';
+import { GroupNode, GROUP_DRAG_HANDLE } from '../nodes/GroupNode';
 import { useWorkflowContext } from '../../context/workflowContext';
+import { useCanvasDiff } from '../../context/historyContext';
+import {
+  Workflow, WorkflowEdge, WorkflowDiagnostic, WorkflowDiff, AnnotationData, AnnotationType, ANNOTATION_TYPES,
+  getNodeTypeDefinitions,
+} from '../../models';
 
-const nodeTypes = {
-  start: StartNode,
-  end: EndNode,
-  llm: LLMNode,
-  tool: ToolNode,
-  interrupt: InterruptNode,
-  userInput:InputNode,
-};
+// React Flow components of every registered node type and of the annotations.
+const flowNodeTypes = (): NodeTypes => ({
+  ...Object.fromEntries(getNodeTypeDefinitions().map(({ type }) => [type, getNodeTypeView(type).component ?? RegisteredNode])),
+  stickyNote: NoteNode,
+  groupFrame: GroupNode,
+});
 
-export const WorkflowCanvas: React.FC = () => {
-  const reactFlowWrapper = useRef<HTMLDivElement>(null);
-  const { 
-    currentWorkflow, 
-    addNode, 
-    updateNodePosition,
-    addEdge: addStoreEdge, 
-    setSelectedNode, 
-    setSelectedEdge 
-  } = useWorkflowContext();
+// React Flow node types of annotations, named apart from React Flow's built-in `group`.
+const ANNOTATION_NODE_TYPES: Record<AnnotationType, string> = { note: 'stickyNote', group: 'groupFrame' };
+
+const isAnnotationNode = (node: Node) =>
+  node.type === ANNOTATION_NODE_TYPES.note || node.type === ANNOTATION_NODE_TYPES.group;
 
-  const initialNodes = currentWorkflow?.nodes.map(node => ({
+// Maps the workflow's annotations and nodes to React Flow nodes. Annotations
+// come first and group frames sit below everything else, so nodes stay on top.
+const toFlowNodes = (workflow: Workflow, selectedNodeIds: string[]): Node[] => [
+  ...workflow.annotations.map(annotation => ({
+    id: annotation.id,
+    type: ANNOTATION_NODE_TYPES[annotation.type],
+    position: annotation.position,
+    width: annotation.size.width,
+    height: annotation.size.height,
+    data: annotation.data as unknown as Record<string, unknown>,
+    zIndex: annotation.isGroup() ? -1 : 0,
+    dragHandle: annotation.isGroup() ? `.${GROUP_DRAG_HANDLE}` : undefined,
+  })),
+  ...workflow.nodes.map(node => ({
     id: node.id,
     type: node.type,
     position: node.position,
     data: { ...node.data, type: node.type },
-  })) || [];
+    selected: selectedNodeIds.includes(node.id),
+  })),
+];
 
-  const initialEdges = currentWorkflow?.edges.map(edge => ({
+// Edge colours while the history panel highlights changes since a saved version.
+const DIFF_STROKES = { added: '#10B981', changed: '#0EA5E9' };
+
+// Maps a model edge to a React Flow edge, flagging it when validation found a
+// problem with it and colouring it when it changed since the compared version.
+const toFlowEdge = (edge: WorkflowEdge, diagnostics: WorkflowDiagnostic[], diff: WorkflowDiff | null = null) => {
+  const edgeDiagnostics = diagnostics.filter(d => d.edgeId === edge.id);
+  const hasErrors = edgeDiagnostics.some(d => d.severity === 'error');
+  const diffKind = diff?.edges.find(change => change.id === edge.id)?.kind;
+  const diffStroke = diffKind === 'added' || diffKind === 'changed' ? DIFF_STROKES[diffKind] : undefined;
+  const label = edge.data.label || '';
+  return {
     id: edge.id,
     source: edge.source,
     target: edge.target,
+    sourceHandle: edge.sourceHandle,
+    targetHandle: edge.targetHandle,
     type: edge.type === 'default' ? 'default' : edge.type,
     data: edge.data,
     animated: edge.type === 'looping',
     style: {
-      stroke: edge.type === 'conditional' ? '#F59E0B' : edge.type === 'parallel' ? '#8B5CF6' : '#6B7280',
+      stroke: hasErrors ? '#DC2626' : diffStroke ? diffStroke : edge.type === 'conditional' ? '#F59E0B' : edge.type === 'parallel' ? '#8B5CF6' : edge.type === 'error' ? '#E11D48' : '#6B7280',
       strokeWidth: 2,
+      strokeDasharray: edge.type === 'error' ? '6 4' : undefined,
     },
-    label: edge.data.label,
-  })) || [];
+    label: edgeDiagnostics.length > 0 ? `⚠ ${label}`.trim() : label,
+  };
+};
+
+export const WorkflowCanvas: React.FC = () => {
+  const reactFlowWrapper = useRef<HTMLDivElement>(null);
+  const { 
+    currentWorkflow, 
+    workflows,
+    addNode, 
+    updateNodePosition,
+    addEdge: addStoreEdge, 
+    setSelectedNode, 
+    setSelectedEdge,
+    openSubworkflow,
+    selectedNodeIds,
+    setSelectedNodeIds,
+    deleteNodes,
+    duplicateNodes,
+    pasteNodes,
+    addAnnotation,
+    moveAnnotation,
+    batch
+  } = useWorkflowContext();
+  const diff = useCanvasDiff();
+  // React Flow needs the same object on every render; node types are all registered before the editor renders.
+  const nodeTypes = useMemo(flowNodeTypes, []);
+
+  const initialNodes = currentWorkflow ? toFlowNodes(currentWorkflow, selectedNodeIds) : [];
+
+  // One validation per change, shared by the first paint and the updates below.
+  const diagnostics = useMemo(() => currentWorkflow?.validate(workflows) || [], [currentWorkflow, workflows]);
+
+  const initialEdges = currentWorkflow?.edges.map(edge => toFlowEdge(edge, diagnostics)) || [];
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
@@ -72,26 +131,12 @@ export const WorkflowCanvas: React.FC = () => {
   // Update nodes and edges when currentWorkflow changes
   React.useEffect(() => {
     if (currentWorkflow) {
-      const workflowNodes = currentWorkflow.nodes.map(node => ({
-        id: node.id,
-        type: node.type,
-        position: node.position,
-        data: { ...node.data, type: node.type },
-      }));
+      // Read rather than subscribed: selection changes come from the canvas itself,
+      // but nodes added by a paste arrive selected.
+      const { selectedNodeIds } = useWorkflowContext.getState();
+      const workflowNodes = toFlowNodes(currentWorkflow, selectedNodeIds);
       
-      const workflowEdges = currentWorkflow.edges.map(edge => ({
-        id: edge.id,
-        source: edge.source,
-        target: edge.target,
-        type: edge.type === 'default' ? 'default' : edge.type,
-        data: edge.data,
-        animated: edge.type === 'looping',
-        style: {
-          stroke: edge.type === 'conditional' ? '#F59E0B' : edge.type === 'parallel' ? '#8B5CF6' : '#6B7280',
-          strokeWidth: 2,
-        },
-        label: edge.data.label,
-      }));
+      const workflowEdges = currentWorkflow.edges.map(edge => toFlowEdge(edge, diagnostics, diff));
 
       // Only update if there are actual changes to prevent unnecessary re-renders
       setNodes((currentNodes) => {
@@ -100,10 +145,24 @@ export const WorkflowCanvas: React.FC = () => {
             const workflowNode = workflowNodes[index];
             return !workflowNode || 
               node.id !== workflowNode.id ||
+              // Positions only change here through undo and redo; drags end with the same position.
+              node.position.x !== workflowNode.position.x ||
+              node.position.y !== workflowNode.position.y ||
               node.data.label !== workflowNode.data.label ||
-              node.data.description !== workflowNode.data.description;
+              node.data.description !== workflowNode.data.description ||
+              node.data.inputs !== workflowNode.data.inputs ||
+              node.data.outputs !== workflowNode.data.outputs ||
+              // Annotations pass their data through unchanged, so any edit makes a new object.
+              (isAnnotationNode(node) && node.data !== workflowNode.data) ||
+              node.width !== workflowNode.width ||
+              node.height !== workflowNode.height;
           });
-        return hasChanges ? workflowNodes : currentNodes;
+        // Selected annotations stay selected, so their toolbar survives a colour change.
+        return hasChanges
+          ? workflowNodes.map(node => isAnnotationNode(node)
+            ? { ...node, selected: currentNodes.find(n => n.id === node.id)?.selected }
+            : node)
+          : currentNodes;
       });
       
       setEdges((currentEdges) => {
@@ -112,19 +171,38 @@ export const WorkflowCanvas: React.FC = () => {
             const workflowEdge = workflowEdges[index];
             return !workflowEdge || 
               edge.id !== workflowEdge.id ||
-              edge.data?.label !== workflowEdge.data?.label;
+              // Retyping replaces the data; its animation and dashes follow the type.
+              edge.type !== workflowEdge.type ||
+              edge.data !== workflowEdge.data ||
+              edge.label !== workflowEdge.label ||
+              edge.style?.stroke !== workflowEdge.style.stroke ||
+              edge.sourceHandle !== workflowEdge.sourceHandle ||
+              edge.targetHandle !== workflowEdge.targetHandle;
           });
         return hasChanges ? workflowEdges : currentEdges;
       });
     }
-  }, [currentWorkflow, setNodes, setEdges]);
+  }, [currentWorkflow, diagnostics, diff, setNodes, setEdges]);
+
+  // Refuse connections between ports whose types cannot be converted. Connections
+  // that need a conversion to text are allowed; the validator warns about them.
+  const isValidConnection = useCallback((connection: Connection | Edge) => {
+    if (!currentWorkflow) return true;
+    return currentWorkflow.checkConnection(
+      connection.source, connection.sourceHandle, connection.target, connection.targetHandle
+    ) !== 'incompatible';
+  }, [currentWorkflow]);
 
   const onConnect: OnConnect = useCallback((connection: Connection) => {
-    if (connection.source && connection.target) {
-      // Determine edge type based on context (default to default for now)
-      addStoreEdge(connection.source, connection.target, 'default');
+    if (connection.source && connection.target && isValidConnection(connection)) {
+      // Determine edge type based on context (default to default for now).
+      // The handles are the output/input ports the edge binds.
+      addStoreEdge(
+        connection.source, connection.target, 'default',
+        connection.sourceHandle || undefined, connection.targetHandle || undefined
+      );
     }
-  }, [addStoreEdge]);
+  }, [addStoreEdge, isValidConnection]);
 
   const onDragOver = useCallback((event: React.DragEvent) => {
     event.preventDefault();
@@ -150,8 +228,12 @@ export const WorkflowCanvas: React.FC = () => {
       y: event.clientY - reactFlowBounds.top - 40,
     };
 
-    addNode(type as any, position);
-  }, [addNode, reactFlowInstance]);
+    if (ANNOTATION_TYPES.includes(type as AnnotationType)) {
+      addAnnotation(type as AnnotationType, position);
+    } else {
+      addNode(type, position);
+    }
+  }, [addNode, addAnnotation, reactFlowInstance]);
 
   const onNodeClick = useCallback((_event: React.MouseEvent, node: Node) => {
     const workflowNode = currentWorkflow?.nodes.find(n => n.id === node.id);
@@ -160,6 +242,11 @@ export const WorkflowCanvas: React.FC = () => {
     }
   }, [currentWorkflow, setSelectedNode]);
 
+  // Double-clicking a subworkflow drills into the workflow it embeds.
+  const onNodeDoubleClick = useCallback((_event: React.MouseEvent, node: Node) => {
+    if (node.type === 'subworkflow') openSubworkflow(node.id);
+  }, [openSubworkflow]);
+
   const onEdgeClick = useCallback((_event: React.MouseEvent, edge: Edge) => {
     const workflowEdge = currentWorkflow?.edges.find(e => e.id === edge.id);
     if (workflowEdge) {
@@ -172,17 +259,106 @@ export const WorkflowCanvas: React.FC = () => {
     setSelectedEdge(null);
   }, [setSelectedNode, setSelectedEdge]);
 
+  const onSelectionChange = useCallback(({ nodes: selected }: OnSelectionChangeParams) => {
+    setSelectedNodeIds(selected.filter(node => !isAnnotationNode(node)).map(node => node.id));
+  }, [setSelectedNodeIds]);
+
+  // Copy, cut and paste go through the system clipboard as editor JSON, so
+  // nodes can be pasted into another workflow or another browser tab. Text
+  // fields keep their own clipboard behaviour.
+  React.useEffect(() => {
+    const isEditingText = (e: Event) => {
+      const target = e.target as HTMLElement;
+      return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+    };
+
+    const handleCopy = (e: ClipboardEvent) => {
+      const { currentWorkflow, selectedNodeIds } = useWorkflowContext.getState();
+      if (isEditingText(e) || !currentWorkflow || selectedNodeIds.length === 0) return;
+      const fragment = currentWorkflow.extractNodes(selectedNodeIds);
+      e.clipboardData?.setData('text/plain', JSON.stringify(fragment.toExportObject(), null, 2));
+      e.preventDefault();
+      if (e.type === 'cut') deleteNodes(selectedNodeIds);
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditingText(e)) return;
+      let fragment: Workflow;
+      try {
+        fragment = Workflow.fromImportData(JSON.parse(e.clipboardData?.getData('text/plain') || ''));
+      } catch {
+        // Not workflow JSON; nothing to paste onto the canvas.
+        return;
+      }
+      e.preventDefault();
+      pasteNodes(fragment);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'd' || isEditingText(e)) return;
+      e.preventDefault();
+      duplicateNodes(useWorkflowContext.getState().selectedNodeIds);
+    };
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [deleteNodes, duplicateNodes, pasteNodes]);
+
   const onNodesChangeHandler: OnNodesChange = useCallback((changes) => {
+    // While a group frame is dragged its members follow it on the canvas; the
+    // store moves them for real when the frame is dropped.
+    const followers = changes.flatMap((change) => {
+      if (change.type !== 'position' || !change.position || !change.dragging || !currentWorkflow) return [];
+      const group = currentWorkflow.findAnnotation(change.id);
+      if (!group?.isGroup()) return [];
+
+      const { nodeIds, annotationIds } = currentWorkflow.getGroupMembers(group.id);
+      const start = (id: string) => (currentWorkflow.findNode(id) || currentWorkflow.findAnnotation(id))!.position;
+      return [...nodeIds, ...annotationIds]
+        .filter(id => !changes.some(other => other.type === 'position' && other.id === id))
+        .map(id => ({
+          type: 'position' as const,
+          id,
+          position: {
+            x: start(id).x + change.position!.x - group.position.x,
+            y: start(id).y + change.position!.y - group.position.y,
+          },
+          dragging: true,
+        }));
+    });
+
     // Cast the changes to work with React Flow's type system
-    onNodesChange(changes as any);
+    onNodesChange([...changes, ...followers] as any);
     
-    // Update positions in store when nodes are dragged
-    changes.forEach((change) => {
-      if (change.type === 'position' && change.position && change.dragging === false) {
-        updateNodePosition(change.id, change.position);
+    // Update positions in store when nodes are dragged. Frames go first, so
+    // members dragged along with their frame still land where they were dropped.
+    const isGroup = (id: string) => !!currentWorkflow?.findAnnotation(id)?.isGroup();
+    const dropped = changes
+      .flatMap(change => change.type === 'position' && change.position && change.dragging === false
+        ? [{ id: change.id, position: change.position }] : [])
+      .sort((a, b) => Number(isGroup(b.id)) - Number(isGroup(a.id)));
+    const commit = () => dropped.forEach(({ id, position }) => {
+      if (currentWorkflow?.findAnnotation(id)) {
+        moveAnnotation(id, position);
+      } else {
+        updateNodePosition(id, position);
       }
     });
-  }, [onNodesChange, updateNodePosition]);
+    // Dropping several elements at once undoes as one step.
+    if (dropped.length > 1) {
+      batch(commit);
+    } else {
+      commit();
+    }
+  }, [currentWorkflow, onNodesChange, updateNodePosition, moveAnnotation, batch]);
 
   if (!currentWorkflow) {
     return (
@@ -203,11 +379,17 @@ export const WorkflowCanvas: React.FC = () => {
         onNodesChange={onNodesChangeHandler}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
+        isValidConnection={isValidConnection}
         onDrop={onDrop}
         onDragOver={onDragOver}
         onNodeClick={onNodeClick}
+        onNodeDoubleClick={onNodeDoubleClick}
         onEdgeClick={onEdgeClick}
         onPaneClick={onPaneClick}
+        onSelectionChange={onSelectionChange}
+        // Shift-drag draws a selection box and shift-click adds to the selection.
+        selectionKeyCode="Shift"
+        multiSelectionKeyCode="Shift"
         nodeTypes={nodeTypes}
         onInit={(instance) => {
           setReactFlowInstance(instance);
@@ -241,18 +423,9 @@ export const WorkflowCanvas: React.FC = () => {
         <MiniMap 
           className="react-flow__minimap"
           position="bottom-right"
-          nodeColor={(node) => {
-            switch (node.type) {
-              case 'start': return '#22C55E';
-              case 'end': return '#ef4444';
-              case 'llm': return '#3b82f6';
-              case 'tool': return '#0EB27C';
-              
-              case 'interrupt': return '#E1A807';
-              case 'userInput': return '#A44FF4'
-              default: return '#6b7280';
-            }
-          }}
+          nodeColor={(node) => isAnnotationNode(node)
+            ? (node.data as unknown as AnnotationData).color
+            : getNodeTypeView(node.type).colors.minimap}
           maskColor="rgba(0, 0, 0, 0.1)"
           nodeStrokeWidth={3}
           zoomable
@@ -0,0 +1,189 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import {
+  ConditionVariable,
+  ConditionTokenKind,
+  checkCondition,
+  completeCondition,
+  highlightCondition,
+} from '../../models';
+
+interface ConditionInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  // Upstream outputs the condition may reference; drives checking and completion.
+  variables: ConditionVariable[];
+  placeholder?: string;
+}
+
+const TOKEN_CLASSES: Record<ConditionTokenKind, string> = {
+  keyword: 'text-purple-600 font-semibold',
+  operator: 'text-gray-500',
+  string: 'text-green-700',
+  number: 'text-orange-600',
+  reference: 'text-blue-700',
+  punctuation: 'text-gray-500',
+  invalid: 'text-red-600',
+};
+
+// Shared by the textarea and the highlight layer behind it so their text lines up exactly.
+const FIELD_CLASSES = 'w-full px-3 py-2 font-mono text-sm whitespace-pre-wrap break-words';
+
+/**
+ * Condition editor with syntax highlighting, inline diagnostics and completion
+ * of upstream `node.output` variables. The textarea is transparent and sits on
+ * top of a highlighted copy of its text.
+ */
+export const ConditionInput: React.FC<ConditionInputProps> = ({ id, value, onChange, variables, placeholder }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+
+  const diagnostics = useMemo(
+    () => (value.trim() ? checkCondition(value, variables) : []),
+    [value, variables]
+  );
+  const completion = useMemo(() => {
+    if (cursor === null) return null;
+    const result = completeCondition(value, cursor, variables);
+    // Only offer suggestions once the user has started typing a reference.
+    return result.to > result.from && result.suggestions.length > 0 ? result : null;
+  }, [value, cursor, variables]);
+
+  const highlighted = useMemo(() => {
+    const isFlagged = (start: number, end: number) =>
+      diagnostics.some(d => d.severity === 'error' && d.start < end && d.end > start);
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    highlightCondition(value).forEach((token, index) => {
+      if (token.start > position) parts.push(value.slice(position, token.start));
+      parts.push(
+        <span
+          key={index}
+          className={`${TOKEN_CLASSES[token.kind]} ${isFlagged(token.start, token.end) ? 'underline decoration-wavy decoration-red-500' : ''}`}
+        >
+          {value.slice(token.start, token.end)}
+        </span>
+      );
+      position = token.end;
+    });
+    parts.push(value.slice(position));
+    return parts;
+  }, [value, diagnostics]);
+
+  const updateCursor = () => {
+    setCursor(textareaRef.current?.selectionStart ?? null);
+    setActiveSuggestion(0);
+  };
+
+  const applySuggestion = (suggestion: ConditionVariable) => {
+    if (!completion) return;
+    const next = value.slice(0, completion.from) + suggestion.reference + value.slice(completion.to);
+    const nextCursor = completion.from + suggestion.reference.length;
+    onChange(next);
+    setCursor(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!completion) return;
+    const count = completion.suggestions.length;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveSuggestion((activeSuggestion + 1) % count);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveSuggestion((activeSuggestion - 1 + count) % count);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(completion.suggestions[Math.min(activeSuggestion, count - 1)]);
+    } else if (e.key === 'Escape') {
+      setCursor(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="relative border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500 bg-white">
+        <div
+          ref={highlightRef}
+          aria-hidden
+          className={`${FIELD_CLASSES} absolute inset-0 overflow-hidden pointer-events-none text-gray-900`}
+        >
+          {highlighted}
+          {/* Keeps a trailing newline from collapsing so both layers stay the same height */}
+          {'\u200b'}
+        </div>
+        <textarea
+          id={id}
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCursor(e.target.selectionStart);
+            setActiveSuggestion(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={(e) => ['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(e.key) && updateCursor()}
+          onClick={updateCursor}
+          onBlur={() => setCursor(null)}
+          onScroll={(e) => {
+            if (highlightRef.current) highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          rows={3}
+          spellCheck={false}
+          placeholder={placeholder}
+          className={`${FIELD_CLASSES} relative block bg-transparent text-transparent caret-gray-900 resize-none focus:outline-none`}
+        />
+
+        {completion && (
+          <ul className="absolute left-0 right-0 top-full mt-1 z-10 bg-white border border-gray-200 rounded-md shadow-lg max-h-48 overflow-y-auto text-sm">
+            {completion.suggestions.map((suggestion, index) => (
+              <li
+                key={`${suggestion.nodeId}.${suggestion.output}`}
+                // Mouse down fires before the textarea's blur, which would close the list.
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  applySuggestion(suggestion);
+                }}
+                className={`px-3 py-1.5 flex items-center justify-between cursor-pointer ${
+                  index === activeSuggestion ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className="font-mono text-blue-700">{suggestion.reference}</span>
+                <span className="text-xs text-gray-500">{suggestion.type} · {suggestion.nodeLabel}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {diagnostics.length > 0 && (
+        <div className="mt-1 space-y-1">
+          {diagnostics.map((diagnostic, index) => (
+            <p
+              key={index}
+              className={`text-xs flex items-start ${diagnostic.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}`}
+            >
+              {diagnostic.severity === 'error'
+                ? <AlertCircle size={12} className="mr-1 mt-0.5 flex-shrink-0" />
+                : <AlertTriangle size={12} className="mr-1 mt-0.5 flex-shrink-0" />}
+              {diagnostic.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {variables.length > 0 && (
+        <p className="mt-1 text-xs text-gray-500">
+          Start typing a node name to insert one of {variables.length} upstream output{variables.length === 1 ? '' : 's'}.
+        </p>
+      )}
+    </div>
+  );
+};
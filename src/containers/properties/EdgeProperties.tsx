@@ -1,20 +1,24 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useWorkflowContext } from '../../context/workflowContext';
 import { 
   WorkflowEdge, 
   EdgeType, // Import EdgeType
   ConditionalEdgeConfig, 
   ParallelEdgeConfig, 
-  LoopingEdgeConfig 
+  LoopingEdgeConfig,
+  JoinMode,
+  checkCondition,
+  createEdgeConfig
 } from '../../models';
 import { Save, Trash2, AlertCircle } from 'lucide-react';
+import { ConditionInput } from './ConditionInput';
 
 interface EdgePropertiesProps {
   edge: WorkflowEdge;
 }
 
 export const EdgeProperties: React.FC<EdgePropertiesProps> = ({ edge }) => {
-  const { updateEdge, deleteEdge, setSelectedEdge } = useWorkflowContext();
+  const { currentWorkflow, updateEdge, deleteEdge, setSelectedEdge, batch } = useWorkflowContext();
 
   // --- State for common edge properties ---
   const [edgeType, setEdgeType] = useState<EdgeType>(edge.type); // State for the dropdown
@@ -23,8 +27,20 @@ export const EdgeProperties: React.FC<EdgePropertiesProps> = ({ edge }) => {
 
   // --- State for specific edge configurations ---
   const [condition, setCondition] = useState('');
-  const [synchronizeAll, setSynchronizeAll] = useState(true);
+  const [joinNodeId, setJoinNodeId] = useState('');
+  const [joinMode, setJoinMode] = useState<JoinMode>('all');
+  const [joinCount, setJoinCount] = useState(2);
+  const [branchTimeout, setBranchTimeout] = useState(30000);
   const [maxIterations, setMaxIterations] = useState(5);
+  const [breakCondition, setBreakCondition] = useState('');
+  const [retryDelay, setRetryDelay] = useState(1000);
+  const [backoffMultiplier, setBackoffMultiplier] = useState(1.5);
+
+  // Conditions can reference the outputs of the source node and anything before it.
+  const variables = useMemo(
+    () => (currentWorkflow ? currentWorkflow.getConditionVariables(edge.source) : []),
+    [currentWorkflow, edge.source]
+  );
 
   // Effect to sync local state when a new edge is selected
   useEffect(() => {
@@ -36,9 +52,15 @@ export const EdgeProperties: React.FC<EdgePropertiesProps> = ({ edge }) => {
     if (edge.isConditional() && config instanceof ConditionalEdgeConfig) {
       setCondition(config.condition || '');
     } else if (edge.isParallel() && config instanceof ParallelEdgeConfig) {
-      setSynchronizeAll(config.waitForAll || true);
+      setJoinNodeId(config.joinNodeId);
+      setJoinMode(config.joinMode);
+      setJoinCount(config.joinCount);
+      setBranchTimeout(config.timeout);
     } else if (edge.isLooping() && config instanceof LoopingEdgeConfig) {
       setMaxIterations(config.maxIterations || 3);
+      setBreakCondition(config.breakCondition || '');
+      setRetryDelay(config.retryDelay);
+      setBackoffMultiplier(config.backoffMultiplier);
     }
   }, [edge]);
 
@@ -46,20 +68,10 @@ export const EdgeProperties: React.FC<EdgePropertiesProps> = ({ edge }) => {
   const handleTypeChange = (newType: EdgeType) => {
     setEdgeType(newType);
 
-    // When the type changes, create a new default config for that type
-    let newConfig;
-    if (newType === 'conditional') {
-      newConfig = new ConditionalEdgeConfig();
-    } else if (newType === 'looping') {
-      newConfig = new LoopingEdgeConfig();
-    } else if (newType === 'parallel') {
-      newConfig = new ParallelEdgeConfig();
-    }
-    // 'default' type has no config
-
-    // Immediately update the edge in the global state.
+    // Immediately update the edge in the global state with the new type's default
+    // config ('default' and 'error' edges have none).
     // This will cause the component to re-render with the correct fields.
-    updateEdge(edge.id, { type: newType, config: newConfig });
+    updateEdge(edge.id, { type: newType, data: { config: createEdgeConfig(newType) } });
   };
 
   const handleSave = () => {
@@ -67,32 +79,73 @@ export const EdgeProperties: React.FC<EdgePropertiesProps> = ({ edge }) => {
   
   setValidationErrors([]);
   const errors: string[] = [];
-  let config;
+  let config: ConditionalEdgeConfig | ParallelEdgeConfig | LoopingEdgeConfig | undefined;
 
   if (edgeType === 'conditional') {
-    if (!condition.trim()) errors.push('Condition expression is required');
+    if (!condition.trim()) {
+      errors.push('Condition expression is required');
+    } else if (checkCondition(condition, variables).some(d => d.severity === 'error')) {
+      errors.push('Fix the errors in the condition expression');
+    }
     if (errors.length === 0) config = new ConditionalEdgeConfig({ condition });
   } else if (edgeType === 'parallel') {
-    config = new ParallelEdgeConfig({ waitForAll: synchronizeAll });
+    const branchCount = currentWorkflow?.getParallelBranches(edge.source).length ?? 1;
+    // Emptied number fields parse to NaN, which no comparison below would catch.
+    if (!Number.isFinite(branchTimeout) || branchTimeout <= 0) errors.push('Branch timeout must be greater than 0');
+    if (joinMode === 'firstN' && (!Number.isFinite(joinCount) || joinCount < 1 || joinCount > branchCount)) {
+      errors.push(`Branches to wait for must be between 1 and ${branchCount}`);
+    }
+    if (errors.length === 0) config = new ParallelEdgeConfig({ joinNodeId, joinMode, joinCount, timeout: branchTimeout });
   } else if (edgeType === 'looping') {
-    if (maxIterations <= 0) errors.push('Max iterations must be greater than 0');
-    if (errors.length === 0) config = new LoopingEdgeConfig({ maxIterations });
+    if (!Number.isFinite(maxIterations) || maxIterations <= 0) errors.push('Max iterations must be greater than 0');
+    if (!Number.isFinite(retryDelay) || retryDelay < 0) errors.push('Retry delay cannot be negative');
+    if (!Number.isFinite(backoffMultiplier) || backoffMultiplier < 1) errors.push('Backoff multiplier must be at least 1');
+    if (breakCondition.trim() && checkCondition(breakCondition, variables).some(d => d.severity === 'error')) {
+      errors.push('Fix the errors in the break condition');
+    }
+    if (errors.length === 0) {
+      config = new LoopingEdgeConfig({ maxIterations, breakCondition, retryDelay, backoffMultiplier });
+    }
   }
 
   if (errors.length > 0) {
     setValidationErrors(errors);
     return;
   }
-  // We need to wrap the updated properties in a `data` object
-  // to match the structure of the WorkflowEdge class.
-  updateEdge(edge.id, {
-    type: edgeType,
-    data: {
-      label: edgeLabel,
-      config: config,
-    },
+  // Saving also updates the sibling branches below; undo reverts them together.
+  batch(() => {
+    // We need to wrap the updated properties in a `data` object
+    // to match the structure of the WorkflowEdge class.
+    updateEdge(edge.id, {
+      type: edgeType,
+      data: {
+        label: edgeLabel,
+        config: config,
+      },
+    });
+    // --- END OF CHANGE ---
+
+    // Every branch of a fan-out shares one join, so keep the sibling edges in step.
+    if (config instanceof ParallelEdgeConfig) {
+      const joinConfig = config;
+      currentWorkflow?.getParallelBranches(edge.source)
+        .filter(sibling => sibling.id !== edge.id)
+        .forEach(sibling => {
+          const siblingConfig = sibling.getConfig<ParallelEdgeConfig>();
+          updateEdge(sibling.id, {
+            data: {
+              ...sibling.data,
+              config: new ParallelEdgeConfig({
+                joinNodeId: joinConfig.joinNodeId,
+                joinMode: joinConfig.joinMode,
+                joinCount: joinConfig.joinCount,
+                timeout: siblingConfig?.timeout ?? joinConfig.timeout,
+              }),
+            },
+          });
+        });
+    }
   });
-  // --- END OF CHANGE ---
 };
 
   const handleDelete = () => {
@@ -118,6 +171,7 @@ export const EdgeProperties: React.FC<EdgePropertiesProps> = ({ edge }) => {
           <option value="conditional">Conditional</option>
           <option value="looping">Looping</option>
           <option value="parallel">Parallel</option>
+          <option value="error">Error</option>
         </select>
       </div>
 
@@ -141,34 +195,78 @@ export const EdgeProperties: React.FC<EdgePropertiesProps> = ({ edge }) => {
         // ... conditional JSX
         <div>
             <label htmlFor="condition" className="block text-sm font-medium text-gray-700 mb-1">Condition Expression</label>
-            <textarea
+            <ConditionInput
               id="condition"
               value={condition}
-              onChange={(e) => setCondition(e.target.value)}
-              rows={3}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
-              placeholder="e.g., $llm_node.output.confidence > 0.8"
+              onChange={setCondition}
+              variables={variables}
+              placeholder={'e.g., classifier.summary == "approve"'}
             />
         </div>
       )}
       {edgeType=='parallel' && (
         // ... parallel JSX
-        <div className="flex items-center">
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="joinNode" className="block text-sm font-medium text-gray-700 mb-1">Join Node</label>
+            <select
+              id="joinNode"
+              value={joinNodeId}
+              onChange={(e) => setJoinNodeId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="">Auto-detect</option>
+              {currentWorkflow?.nodes
+                .filter(node => node.id !== edge.source)
+                .map(node => (
+                  <option key={node.id} value={node.id}>{node.data.label}</option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="joinMode" className="block text-sm font-medium text-gray-700 mb-1">Continue When</label>
+            <select
+              id="joinMode"
+              value={joinMode}
+              onChange={(e) => setJoinMode(e.target.value as JoinMode)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="all">All branches complete</option>
+              <option value="any">Any branch completes</option>
+              <option value="firstN">The first N branches complete</option>
+            </select>
+          </div>
+          {joinMode === 'firstN' && (
+            <div>
+              <label htmlFor="joinCount" className="block text-sm font-medium text-gray-700 mb-1">Branches to Wait For (N)</label>
+              <input
+                id="joinCount"
+                type="number"
+                min="1"
+                value={joinCount}
+                onChange={(e) => setJoinCount(parseInt(e.target.value, 10))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          )}
+          <div>
+            <label htmlFor="branchTimeout" className="block text-sm font-medium text-gray-700 mb-1">Branch Timeout (ms)</label>
             <input
-              type="checkbox"
-              id="synchronizeAll"
-              checked={synchronizeAll}
-              onChange={(e) => setSynchronizeAll(e.target.checked)}
-              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              id="branchTimeout"
+              type="number"
+              min="1"
+              value={branchTimeout}
+              onChange={(e) => setBranchTimeout(parseInt(e.target.value, 10))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
             />
-            <label htmlFor="synchronizeAll" className="ml-2 text-sm font-medium text-gray-700">
-              Wait for all branches to complete
-            </label>
+          </div>
+          <p className="text-xs text-gray-500">Join settings apply to every parallel branch leaving the same node.</p>
         </div>
       )}
       {edgeType=='looping' && (
         // ... looping JSX
-        <div>
+        <div className="space-y-3">
+          <div>
             <label htmlFor="maxIterations" className="block text-sm font-medium text-gray-700 mb-1">Max Iterations</label>
             <input
               id="maxIterations"
@@ -178,6 +276,45 @@ export const EdgeProperties: React.FC<EdgePropertiesProps> = ({ edge }) => {
               onChange={(e) => setMaxIterations(parseInt(e.target.value, 10))}
               className="w-full px-3 py-2 border border-gray-300 rounded-md"
             />
+          </div>
+          <div>
+            <label htmlFor="breakCondition" className="block text-sm font-medium text-gray-700 mb-1">Break Condition</label>
+            <ConditionInput
+              id="breakCondition"
+              value={breakCondition}
+              onChange={setBreakCondition}
+              variables={variables}
+              placeholder={'e.g., reviewer.approved == true'}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Stops looping early once true. The loop target's <code>iteration</code> counts the repeats so far.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor="retryDelay" className="block text-sm font-medium text-gray-700 mb-1">Retry Delay (ms)</label>
+              <input
+                id="retryDelay"
+                type="number"
+                min="0"
+                value={retryDelay}
+                onChange={(e) => setRetryDelay(parseInt(e.target.value, 10))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label htmlFor="backoffMultiplier" className="block text-sm font-medium text-gray-700 mb-1">Backoff</label>
+              <input
+                id="backoffMultiplier"
+                type="number"
+                min="1"
+                step="0.1"
+                value={backoffMultiplier}
+                onChange={(e) => setBackoffMultiplier(parseFloat(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
         </div>
       )}
 
@@ -0,0 +1,84 @@
+import React from 'react';
+import { useWorkflowContext } from '../../context/workflowContext';
+import { WorkflowNode, BaseNodeConfig, ErrorBehavior, ExecutionPolicy } from '../../models';
+
+interface ExecutionPolicyEditorProps {
+  node: WorkflowNode;
+}
+
+const ERROR_BEHAVIOR_LABELS: Record<ErrorBehavior, string> = {
+  fail: 'Fail the workflow',
+  fallback: 'Continue with a fallback value',
+  route: 'Follow the error edges',
+};
+
+/**
+ * Edits how a node recovers from failures: retries with backoff, a per-attempt
+ * timeout, and what to do once the retries are used up.
+ */
+export const ExecutionPolicyEditor: React.FC<ExecutionPolicyEditorProps> = ({ node }) => {
+  const { updateNode } = useWorkflowContext();
+  const config = node.getConfig();
+  if (!(config instanceof BaseNodeConfig)) return null;
+
+  const update = (policy: Partial<ExecutionPolicy>) => {
+    updateNode(node.id, { config: config.withPolicy(policy) });
+  };
+
+  const numberField = (key: 'retries' | 'retryDelay' | 'backoffMultiplier' | 'timeout', label: string, step = 1) => (
+    <div>
+      <label htmlFor={`policy-${key}`} className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+      <input
+        id={`policy-${key}`}
+        type="number"
+        min={key === 'backoffMultiplier' ? 1 : 0}
+        step={step}
+        value={config[key]}
+        onChange={(e) => update({ [key]: Number(e.target.value) })}
+        className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+      />
+    </div>
+  );
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200 space-y-3">
+      <h4 className="text-sm font-semibold text-gray-800">Error Handling</h4>
+      <div className="grid grid-cols-2 gap-2">
+        {numberField('retries', 'Retries')}
+        {numberField('timeout', 'Timeout (ms, 0 = none)')}
+        {numberField('retryDelay', 'Retry Delay (ms)')}
+        {numberField('backoffMultiplier', 'Backoff', 0.1)}
+      </div>
+      <div>
+        <label htmlFor="policy-onError" className="block text-xs font-medium text-gray-600 mb-1">When Retries Run Out</label>
+        <select
+          id="policy-onError"
+          value={config.onError}
+          onChange={(e) => update({ onError: e.target.value as ErrorBehavior })}
+          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+        >
+          {Object.entries(ERROR_BEHAVIOR_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+      {config.onError === 'fallback' && (
+        <div>
+          <label htmlFor="policy-fallbackValue" className="block text-xs font-medium text-gray-600 mb-1">Fallback Value</label>
+          <input
+            id="policy-fallbackValue"
+            type="text"
+            value={config.fallbackValue}
+            onChange={(e) => update({ fallbackValue: e.target.value })}
+            placeholder='e.g., "unavailable" or {"status": "error"}'
+            className="w-full px-2 py-1 border border-gray-300 rounded-md font-mono text-xs"
+          />
+          <p className="mt-1 text-xs text-gray-500">Used for every output. JSON is parsed; anything else is kept as text.</p>
+        </div>
+      )}
+      {config.onError === 'route' && (
+        <p className="text-xs text-gray-500">Connect this node onward and set the edge type to Error.</p>
+      )}
+    </div>
+  );
+};
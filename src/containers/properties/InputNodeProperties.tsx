@@ -76,7 +76,12 @@ export const InputNodeProperties: React.FC<InputNodePropertiesProps> = ({ node }
       input_fields: inputFields,
     };
 
-    updateNode(node.id, { inputs: updatedInputs });
+    // Each field is exposed as an output port that downstream nodes can bind to.
+    const updatedOutputs = Object.fromEntries(
+      inputFields.map(field => [field.key, field.type])
+    );
+
+    updateNode(node.id, { inputs: updatedInputs, outputs: updatedOutputs });
   };
 
   const addInputField = () => {
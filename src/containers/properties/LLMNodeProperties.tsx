@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useWorkflowContext } from '../../context/workflowContext';
 import { WorkflowNode } from '../../models';
 import { Save, AlertCircle } from 'lucide-react';
+import { SecretInput } from './SecretInput';
 
 interface LLMNodePropertiesProps {
   node: WorkflowNode;
@@ -66,10 +67,10 @@ export const LLMNodeProperties: React.FC<LLMNodePropertiesProps> = ({ node }) =>
         </select>
       </div>
       
-      {/* API Key Input */}
+      {/* API Key, a reference to a secret in the credential vault */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-1">API Key</label>
-        <input type="password" value={apiKey} onChange={(e) => setApiKey(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md" />
+        <SecretInput value={apiKey} onChange={setApiKey} />
       </div>
       
       {/* Temperature Slider */}
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { useWorkflowContext } from '../../context/workflowContext';
+import { WorkflowNode, PortSchema, formatSchema, parseSchema, compactSchema } from '../../models';
+
+interface PortTypesEditorProps {
+  node: WorkflowNode;
+}
+
+type PortKind = 'input' | 'output';
+
+/**
+ * Lets the user declare the type of every input and output port, either in
+ * short form (`number`, `array<string>`) or as a JSON Schema object.
+ */
+export const PortTypesEditor: React.FC<PortTypesEditorProps> = ({ node }) => {
+  const { updateNode } = useWorkflowContext();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const inputPorts = Object.keys(node.data.inputs || {});
+  const outputPorts = Object.keys(node.data.outputs || {});
+
+  // Drop unsaved edits when another node is selected.
+  useEffect(() => {
+    setDrafts({});
+    setErrors({});
+  }, [node.id]);
+
+  const draftKey = (kind: PortKind, port: string) => `${kind}:${port}`;
+  const schemaOf = (kind: PortKind, port: string) =>
+    kind === 'input' ? node.getInputSchema(port) : node.getOutputSchema(port);
+
+  const commit = (kind: PortKind, port: string) => {
+    const key = draftKey(kind, port);
+    if (drafts[key] === undefined) return;
+
+    const schema = parseSchema(drafts[key]);
+    if (!schema) {
+      setErrors({ ...errors, [key]: 'Use a type such as string, number, array<string> or a JSON Schema.' });
+      return;
+    }
+    const remainingDrafts = { ...drafts };
+    const remainingErrors = { ...errors };
+    delete remainingDrafts[key];
+    delete remainingErrors[key];
+    setDrafts(remainingDrafts);
+    setErrors(remainingErrors);
+    saveSchema(kind, port, schema);
+  };
+
+  const saveSchema = (kind: PortKind, port: string, schema: PortSchema) => {
+    if (kind === 'input') {
+      updateNode(node.id, { inputSchemas: { ...node.data.inputSchemas, [port]: schema } });
+    } else {
+      updateNode(node.id, { outputs: { ...node.data.outputs, [port]: compactSchema(schema) } });
+    }
+  };
+
+  const renderPort = (kind: PortKind, port: string) => {
+    const key = draftKey(kind, port);
+    return (
+      <div key={key}>
+        <div className="flex items-center space-x-2">
+          <label htmlFor={key} className="w-28 text-sm text-gray-700 truncate" title={port}>{port}</label>
+          <input
+            id={key}
+            type="text"
+            value={drafts[key] ?? formatSchema(schemaOf(kind, port))}
+            onChange={(e) => setDrafts({ ...drafts, [key]: e.target.value })}
+            onBlur={() => commit(kind, port)}
+            onKeyDown={(e) => e.key === 'Enter' && commit(kind, port)}
+            className={`flex-1 min-w-0 px-2 py-1 border rounded-md font-mono text-xs ${
+              errors[key] ? 'border-red-400' : 'border-gray-300'
+            }`}
+          />
+        </div>
+        {errors[key] && (
+          <p className="text-xs text-red-600 flex items-center mt-1">
+            <AlertCircle size={12} className="mr-1" /> {errors[key]}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  if (inputPorts.length === 0 && outputPorts.length === 0) return null;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200 space-y-4">
+      <h4 className="text-sm font-semibold text-gray-800">Port Types</h4>
+      {inputPorts.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-gray-500 uppercase">Inputs</p>
+          {inputPorts.map(port => renderPort('input', port))}
+        </div>
+      )}
+      {outputPorts.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-gray-500 uppercase">Outputs</p>
+          {outputPorts.map(port => renderPort('output', port))}
+        </div>
+      )}
+    </div>
+  );
+};
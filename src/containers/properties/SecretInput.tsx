@@ -0,0 +1,84 @@
+// src/containers/properties/SecretInput.tsx
+
+import React, { useState } from 'react';
+import { AlertTriangle, KeyRound } from 'lucide-react';
+import { useCredentialContext } from '../../context/credentialContext';
+import { CredentialsModal } from '../panels/CredentialsModal';
+import { isValidSecretName, parseSecretReference, secretReference } from '../../models';
+
+interface SecretInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Picks a secret from the vault for a credential input. A literal key left
+// from before can be moved into the vault, keeping only the reference.
+export const SecretInput: React.FC<SecretInputProps> = ({ value, onChange }) => {
+  const { secrets, saveSecret } = useCredentialContext();
+  const [showVault, setShowVault] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const reference = parseSecretReference(value);
+  const isLiteral = !!value && !reference;
+  const isMissing = !!reference && !secrets.some(secret => secret.name === reference);
+
+  const moveToVault = async () => {
+    const name = newName.trim();
+    if (!isValidSecretName(name)) return;
+    await saveSecret(name, value);
+    onChange(secretReference(name));
+    setNewName('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex space-x-2">
+        <select
+          value={reference ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md"
+        >
+          <option value="">{isLiteral ? 'Literal key (left out of exports)' : 'No secret'}</option>
+          {secrets.map(secret => (
+            <option key={secret.name} value={secretReference(secret.name)}>{secret.name}</option>
+          ))}
+          {isMissing && <option value={value}>{reference} (not in this browser's vault)</option>}
+        </select>
+        <button
+          onClick={() => setShowVault(true)}
+          className="px-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-100"
+          title="Manage credentials"
+        >
+          <KeyRound size={16} />
+        </button>
+      </div>
+
+      {isLiteral && (
+        <div className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2 space-y-2">
+          <p className="flex items-start">
+            <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+            <span>This key is typed into the workflow, so exports leave it out. Move it to the vault:</span>
+          </p>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Secret name, e.g. openai_prod"
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md font-mono"
+            />
+            <button
+              onClick={moveToVault}
+              disabled={!isValidSecretName(newName.trim())}
+              className="px-2 py-1 bg-amber-600 text-white rounded-md hover:bg-amber-700 disabled:opacity-50"
+            >
+              Move
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showVault && <CredentialsModal onClose={() => setShowVault(false)} />}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+// src/containers/properties/SubworkflowNodeProperties.tsx
+
+import React from 'react';
+import { useWorkflowContext } from '../../context/workflowContext';
+import { WorkflowNode, SubworkflowNodeConfig, formatSchema } from '../../models';
+import { AlertCircle, Maximize2, RefreshCw } from 'lucide-react';
+
+interface SubworkflowNodePropertiesProps {
+  node: WorkflowNode;
+}
+
+export const SubworkflowNodeProperties: React.FC<SubworkflowNodePropertiesProps> = ({ node }) => {
+  const { currentWorkflow, workflows, updateNode, openSubworkflow, refreshSubworkflowPorts } = useWorkflowContext();
+
+  const workflowId = node.getConfig<SubworkflowNodeConfig>()?.workflowId || '';
+  const embedded = workflows.find(w => w.id === workflowId);
+
+  // A workflow cannot embed itself, directly or through one of its subworkflows.
+  const candidates = workflows.filter(w =>
+    w.id !== currentWorkflow?.id && !(currentWorkflow && w.embedsWorkflow(currentWorkflow.id, workflows))
+  );
+
+  const handleWorkflowChange = (newWorkflowId: string) => {
+    const selected = workflows.find(w => w.id === newWorkflowId);
+    updateNode(node.id, {
+      config: new SubworkflowNodeConfig({ workflowId: newWorkflowId }),
+      // Name the node after the embedded workflow unless it was renamed already.
+      label: selected && node.data.label === 'Subworkflow Node' ? selected.name : node.data.label,
+      // Without an embedded workflow the node has no ports.
+      ...(selected ? {} : { inputs: {}, inputSchemas: undefined, outputs: {} }),
+    });
+    refreshSubworkflowPorts();
+  };
+
+  const ports = embedded?.getInterface();
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-md font-semibold text-gray-800">Subworkflow</h4>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Embedded Workflow</label>
+        <select
+          value={workflowId}
+          onChange={(e) => handleWorkflowChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        >
+          <option value="">Select Workflow</option>
+          {candidates.map(workflow => (
+            <option key={workflow.id} value={workflow.id}>
+              {workflow.name}
+            </option>
+          ))}
+          {workflowId && !embedded && <option value={workflowId}>Missing workflow ({workflowId})</option>}
+        </select>
+      </div>
+
+      {workflowId && !embedded && (
+        <p className="text-sm text-red-600 flex items-center">
+          <AlertCircle size={14} className="mr-1" /> The embedded workflow is not loaded. Import it to edit or export it.
+        </p>
+      )}
+
+      {ports && (
+        <div className="text-sm space-y-2">
+          <div>
+            <p className="text-xs font-medium text-gray-500 uppercase mb-1">Inputs (from its Start node)</p>
+            {Object.keys(ports.inputs).length === 0 && <p className="text-xs text-gray-500">None</p>}
+            {Object.entries(ports.inputs).map(([key, schema]) => (
+              <p key={key} className="font-mono text-xs text-gray-700">{key}: {formatSchema(schema)}</p>
+            ))}
+          </div>
+          <div>
+            <p className="text-xs font-medium text-gray-500 uppercase mb-1">Outputs (reaching its End node)</p>
+            {Object.keys(ports.outputs).length === 0 && <p className="text-xs text-gray-500">None</p>}
+            {Object.entries(ports.outputs).map(([key, schema]) => (
+              <p key={key} className="font-mono text-xs text-gray-700">{key}: {formatSchema(schema)}</p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {embedded && (
+        <div className="flex space-x-2">
+          <button
+            onClick={() => openSubworkflow(node.id)}
+            className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 flex items-center justify-center transition-colors"
+          >
+            <Maximize2 size={16} className="mr-2" /> Open
+          </button>
+          <button
+            onClick={refreshSubworkflowPorts}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 flex items-center justify-center transition-colors"
+            title="Refresh ports from the embedded workflow"
+          >
+            <RefreshCw size={16} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
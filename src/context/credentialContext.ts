@@ -0,0 +1,75 @@
+import { create } from 'zustand';
+import {
+  StoredSecret, encryptSecretValue, readSecretValue, loadStoredSecrets, storeSecret, deleteStoredSecret,
+} from '../models';
+
+interface CredentialContext {
+  // The vault's secrets by name; encrypted ones keep only their encrypted value.
+  secrets: StoredSecret[];
+  // Passphrase of the encrypted secrets, held in memory only once the vault is unlocked.
+  passphrase: string | null;
+
+  hydrate: () => Promise<void>;
+  saveSecret: (name: string, value: string, options?: { description?: string; encrypt?: boolean }) => Promise<void>;
+  deleteSecret: (name: string) => void;
+  // Resolves to false when the passphrase does not decrypt the vault's encrypted secrets.
+  unlock: (passphrase: string) => Promise<boolean>;
+  lock: () => void;
+  readSecret: (name: string) => Promise<string>;
+}
+
+const byName = (a: StoredSecret, b: StoredSecret) => a.name.localeCompare(b.name);
+
+export const useCredentialContext = create<CredentialContext>((set, get) => ({
+  secrets: [],
+  passphrase: null,
+
+  hydrate: async () => {
+    try {
+      const stored = await loadStoredSecrets();
+      set((state) => ({
+        secrets: [...stored.filter(s => !state.secrets.some(saved => saved.name === s.name)), ...state.secrets].sort(byName),
+      }));
+    } catch (error) {
+      console.error('Failed to load credentials:', error);
+    }
+  },
+
+  saveSecret: async (name: string, value: string, options = {}) => {
+    const { passphrase } = get();
+    if (options.encrypt && !passphrase) throw new Error('Unlock the vault with a passphrase to encrypt secrets.');
+    const secret: StoredSecret = {
+      name,
+      ...(options.description ? { description: options.description } : {}),
+      ...(options.encrypt ? { encrypted: await encryptSecretValue(value, passphrase!) } : { value }),
+      updatedAt: new Date().toISOString(),
+    };
+    set((state) => ({ secrets: [...state.secrets.filter(s => s.name !== name), secret].sort(byName) }));
+    storeSecret(secret).catch(error => console.error('Failed to save secret:', error));
+  },
+
+  deleteSecret: (name: string) => {
+    set((state) => ({ secrets: state.secrets.filter(s => s.name !== name) }));
+    deleteStoredSecret(name).catch(error => console.error('Failed to delete secret:', error));
+  },
+
+  unlock: async (passphrase: string) => {
+    // With no encrypted secrets yet, the first passphrase becomes the vault's.
+    const sample = get().secrets.find(s => s.encrypted);
+    try {
+      if (sample) await readSecretValue(sample, passphrase);
+    } catch {
+      return false;
+    }
+    set({ passphrase });
+    return true;
+  },
+
+  lock: () => set({ passphrase: null }),
+
+  readSecret: async (name: string) => {
+    const secret = get().secrets.find(s => s.name === name);
+    if (!secret) throw new Error(`There is no secret named "${name}".`);
+    return readSecretValue(secret, get().passphrase);
+  },
+}));
@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { WorkflowVersion, WorkflowDiff, loadVersions, diffWorkflows } from '../models';
+import { useWorkflowContext } from './workflowContext';
+
+interface HistoryContext {
+  isOpen: boolean;
+  versions: WorkflowVersion[];
+  // The versions being compared. A null `toId` compares against the workflow
+  // on the canvas, which is then highlighted with the diff.
+  fromId: string | null;
+  toId: string | null;
+
+  toggle: () => void;
+  close: () => void;
+  refresh: (workflowId: string) => Promise<void>;
+  setComparison: (fromId: string | null, toId: string | null) => void;
+}
+
+export const useHistoryContext = create<HistoryContext>((set, get) => ({
+  isOpen: false,
+  versions: [],
+  fromId: null,
+  toId: null,
+
+  toggle: () => set({ isOpen: !get().isOpen }),
+
+  close: () => set({ isOpen: false }),
+
+  refresh: async (workflowId: string) => {
+    try {
+      const versions = await loadVersions(workflowId);
+      const { fromId } = get();
+      set({
+        versions,
+        // Default to comparing the latest version with the canvas.
+        fromId: versions.some(v => v.id === fromId) ? fromId : versions[versions.length - 1]?.id ?? null,
+        toId: null,
+      });
+    } catch (error) {
+      console.error('Failed to load version history:', error);
+    }
+  },
+
+  setComparison: (fromId: string | null, toId: string | null) => set({ fromId, toId }),
+}));
+
+/** The diff highlighted on the canvas: the chosen version against the current workflow, while history is open. */
+export const useCanvasDiff = (): WorkflowDiff | null => {
+  const { isOpen, versions, fromId, toId } = useHistoryContext();
+  const currentWorkflow = useWorkflowContext(state => state.currentWorkflow);
+  const from = versions.find(v => v.id === fromId);
+  if (!isOpen || toId !== null || !from || !currentWorkflow || from.workflowId !== currentWorkflow.id) return null;
+  return diffWorkflows(from.workflow, currentWorkflow);
+};
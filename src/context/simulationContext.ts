@@ -0,0 +1,101 @@
+import { create } from 'zustand';
+import { Workflow, WorkflowSimulator, SimulationState } from '../models';
+
+interface SimulationContext {
+  simulator: WorkflowSimulator | null;
+  state: SimulationState | null;
+  breakpoints: string[];
+  startInput: string;
+
+  // Run controls
+  start: (workflow: Workflow) => void;
+  run: () => Promise<void>;
+  step: () => Promise<void>;
+  pause: () => void;
+  stop: () => void;
+
+  // Debugger settings
+  toggleBreakpoint: (nodeId: string) => void;
+  setStartInput: (value: string) => void;
+}
+
+// Delay between steps while running, so the active node is visible on the canvas.
+const RUN_STEP_DELAY_MS = 400;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const useSimulationContext = create<SimulationContext>((set, get) => ({
+  simulator: null,
+  state: null,
+  breakpoints: [],
+  startInput: '',
+
+  start: (workflow: Workflow) => {
+    const simulator = new WorkflowSimulator(workflow, {}, get().startInput);
+    set({ simulator, state: simulator.initialState() });
+  },
+
+  run: async () => {
+    const { simulator, state } = get();
+    if (!simulator || !state || simulator.isFinished(state) || state.status === 'running') return;
+
+    set({ state: { ...state, status: 'running' } });
+
+    // The node we resume from is executed even if it has a breakpoint,
+    // otherwise a paused breakpoint could never be stepped past.
+    let isFirstStep = true;
+    while (true) {
+      const current = get().state;
+      if (!current || get().simulator !== simulator || current.status !== 'running') return;
+
+      const nextNodeId = simulator.nextNodeId(current);
+      if (!isFirstStep && nextNodeId && get().breakpoints.includes(nextNodeId)) {
+        set({ state: { ...current, status: 'paused' } });
+        return;
+      }
+      isFirstStep = false;
+
+      const next = await simulator.step(current);
+      // Bail out if the run was stopped or restarted while the step was executing.
+      if (get().simulator !== simulator) return;
+      const latest = get().state;
+      set({ state: { ...next, status: latest?.status === 'paused' && !simulator.isFinished(next) ? 'paused' : next.status } });
+
+      if (simulator.isFinished(next)) return;
+      await wait(RUN_STEP_DELAY_MS);
+    }
+  },
+
+  step: async () => {
+    const { simulator, state } = get();
+    if (!simulator || !state || simulator.isFinished(state) || state.status === 'running') return;
+
+    const next = await simulator.step(state);
+    if (get().simulator === simulator) {
+      set({ state: simulator.isFinished(next) ? next : { ...next, status: 'paused' } });
+    }
+  },
+
+  pause: () => {
+    const { state } = get();
+    if (state?.status === 'running') {
+      set({ state: { ...state, status: 'paused' } });
+    }
+  },
+
+  stop: () => {
+    set({ simulator: null, state: null });
+  },
+
+  toggleBreakpoint: (nodeId: string) => {
+    set((s) => ({
+      breakpoints: s.breakpoints.includes(nodeId)
+        ? s.breakpoints.filter(id => id !== nodeId)
+        : [...s.breakpoints, nodeId],
+    }));
+  },
+
+  setStartInput: (value: string) => {
+    set({ startInput: value });
+  },
+}));
@@ -0,0 +1,36 @@
+import { create } from 'zustand';
+import { WorkflowTemplate, loadStoredTemplates, storeTemplate, deleteStoredTemplate } from '../models';
+
+interface TemplateContext {
+  // Templates saved by the user, oldest first. Built-in ones come from `getBuiltInTemplates`.
+  templates: WorkflowTemplate[];
+
+  hydrate: () => Promise<void>;
+  saveTemplate: (template: WorkflowTemplate) => void;
+  deleteTemplate: (id: string) => void;
+}
+
+export const useTemplateContext = create<TemplateContext>((set) => ({
+  templates: [],
+
+  hydrate: async () => {
+    try {
+      const stored = await loadStoredTemplates();
+      set((state) => ({
+        templates: [...stored.filter(t => !state.templates.some(saved => saved.id === t.id)), ...state.templates],
+      }));
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+    }
+  },
+
+  saveTemplate: (template: WorkflowTemplate) => {
+    set((state) => ({ templates: [...state.templates, template] }));
+    storeTemplate(template).catch(error => console.error('Failed to save template:', error));
+  },
+
+  deleteTemplate: (id: string) => {
+    set((state) => ({ templates: state.templates.filter(t => t.id !== id) }));
+    deleteStoredTemplate(id).catch(error => console.error('Failed to delete template:', error));
+  },
+}));
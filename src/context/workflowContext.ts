@@ -1,17 +1,47 @@
 import { create } from 'zustand';
-import { WorkflowNode, WorkflowEdge, Workflow, NodeType, EdgeType, NodeData,LLMNodeConfig, ToolNodeConfig, InterruptNodeConfig,InputNodeConfig, NodeConfig } from '../models';
+import { WorkflowNode, WorkflowEdge, createEdgeConfig, Workflow, NodeType, EdgeType, NodeData, SubworkflowNodeConfig, getNodeTypeDefinition, createNodeConfig,
+  computeLayeredPositions, computeSelectionPositions,
+  WorkflowAnnotation, ANNOTATION_COLORS, AnnotationType, AnnotationData, AnnotationSize,
+  WorkflowDraft, generateId, loadStoredWorkflows, storeWorkflow, deleteStoredWorkflow, loadDrafts, storeDraft, deleteDraft, storeVersion } from '../models';
 
 interface WorkflowContext {
   workflows: Workflow[];
   currentWorkflow: Workflow | null;
   selectedNode: WorkflowNode | null;
   selectedEdge: WorkflowEdge | null;
+  // Nodes selected on the canvas, by box selection or shift-click; they are what copy and paste act on.
+  selectedNodeIds: string[];
+  // Workflows above the current one while drilled into a subworkflow, outermost first.
+  parentWorkflowIds: string[];
+  // Undo history of the current workflow, oldest first, and the states undone since the last edit.
+  past: Workflow[];
+  future: Workflow[];
+  // Key and time of the last recorded edit, used to merge bursts of the same edit.
+  lastEdit: { key: string; at: number } | null;
+  // The copies last written to storage, as saved workflows and as autosaved drafts.
+  // A workflow has unsaved changes while it is not the instance saved for its id.
+  savedWorkflows: Record<string, Workflow>;
+  autosavedWorkflows: Record<string, Workflow>;
+  // Drafts found at startup, awaiting the user's decision to restore or discard them.
+  recoveredDrafts: WorkflowDraft[];
   
   // Workflow operations
   createWorkflow: (name: string) => void;
   loadWorkflow: (workflow: Workflow) => void;
   saveWorkflow: () => void;
   deleteWorkflow: (id: string) => void;
+  addWorkflows: (workflows: Workflow[]) => void;
+  openSubworkflow: (nodeId: string) => void;
+  closeSubworkflow: (workflowId?: string) => void;
+  refreshSubworkflowPorts: () => void;
+
+  // Storage
+  hydrate: () => Promise<void>;
+  autosave: () => void;
+  restoreDrafts: () => void;
+  discardDrafts: () => void;
+  hasUnsavedChanges: (workflow: Workflow) => boolean;
+  restoreVersion: (version: Workflow) => void;
   
   // Node operations
   addNode: (type: NodeType, position: { x: number; y: number }) => void;
@@ -20,31 +50,77 @@ interface WorkflowContext {
   deleteNode: (id: string) => void;
   setSelectedNode: (node: WorkflowNode | null) => void;
   canAddNode: (type: NodeType) => boolean;
+  setSelectedNodeIds: (ids: string[]) => void;
+  deleteNodes: (ids: string[]) => void;
+  duplicateNodes: (ids: string[]) => void;
+  pasteNodes: (fragment: Workflow) => void;
+  autoArrange: (nodeIds?: string[]) => void;
+  
+  // Annotation operations
+  addAnnotation: (type: AnnotationType, position: { x: number; y: number }) => void;
+  updateAnnotation: (id: string, data: Partial<AnnotationData>) => void;
+  moveAnnotation: (id: string, position: { x: number; y: number }) => void;
+  resizeAnnotation: (id: string, position: { x: number; y: number }, size: AnnotationSize) => void;
+  deleteAnnotation: (id: string) => void;
   
   // Edge operations
-  addEdge: (source: string, target: string, type: EdgeType) => void;
-  updateEdge: (id: string, data: Partial<WorkflowEdge['data']>) => void;
+  addEdge: (source: string, target: string, type: EdgeType, sourceHandle?: string, targetHandle?: string) => void;
+  updateEdge: (id: string, data: Partial<WorkflowEdge>) => void;
   deleteEdge: (id: string) => void;
   setSelectedEdge: (edge: WorkflowEdge | null) => void;
+
+  // History
+  undo: () => void;
+  redo: () => void;
+  batch: (edits: () => void) => void;
 }
 
-const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+// Replaces the stored copy of a workflow, adding it if the list does not have it yet.
+const upsertWorkflow = (workflows: Workflow[], workflow: Workflow) =>
+  workflows.some(w => w.id === workflow.id)
+    ? workflows.map(w => w.id === workflow.id ? workflow : w)
+    : [...workflows, workflow];
+
+// Oldest states are dropped beyond this many undo steps.
+const HISTORY_LIMIT = 100;
+// Edits with the same key closer together than this (typing in one field,
+// nudging one node) undo as a single step.
+const COALESCE_WINDOW_MS = 1000;
+
+type History = Pick<WorkflowContext, 'past' | 'future' | 'lastEdit'>;
+
+const emptyHistory: History = { past: [], future: [], lastEdit: null };
+
+// History after replacing `previous` with an edited workflow. Edits without a key never merge.
+const recordEdit = (state: History, previous: Workflow, key?: string): History => {
+  const now = Date.now();
+  const merges = key !== undefined && state.lastEdit?.key === key && now - state.lastEdit.at < COALESCE_WINDOW_MS;
+  return {
+    past: merges ? state.past : [...state.past, previous].slice(-HISTORY_LIMIT),
+    future: [],
+    lastEdit: key === undefined ? null : { key, at: now },
+  };
+};
 
 export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
   workflows: [],
   currentWorkflow: null,
   selectedNode: null,
   selectedEdge: null,
+  selectedNodeIds: [],
+  parentWorkflowIds: [],
+  ...emptyHistory,
+  savedWorkflows: {},
+  autosavedWorkflows: {},
+  recoveredDrafts: [],
 
   canAddNode: (type: NodeType) => {
     const { currentWorkflow } = get();
     if (!currentWorkflow) return true;
-    
-    if (type === 'start') {
-      return !currentWorkflow.nodes.some(node => node.type === 'start');
-    }
-    if (type === 'end') {
-      return !currentWorkflow.nodes.some(node => node.type === 'end');
+
+    // Types like start and end may appear only once per workflow.
+    if (getNodeTypeDefinition(type)?.unique) {
+      return !currentWorkflow.nodes.some(node => node.type === type);
     }
     return true;
   },
@@ -54,11 +130,23 @@ export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
     set((state) => ({
       workflows: [...state.workflows, workflow],
       currentWorkflow: workflow,
+      parentWorkflowIds: [],
+      ...emptyHistory,
     }));
   },
 
   loadWorkflow: (workflow: Workflow) => {
-    set({ currentWorkflow: workflow, selectedNode: null, selectedEdge: null });
+    // Embedded workflows may have changed since this one was last open.
+    const synced = workflow.syncSubworkflowPorts(get().workflows);
+    set((state) => ({
+      currentWorkflow: synced,
+      // Imported workflows join the list so they are kept like any other.
+      workflows: upsertWorkflow(state.workflows, synced),
+      selectedNode: null,
+      selectedEdge: null,
+      parentWorkflowIds: [],
+      ...emptyHistory,
+    }));
   },
 
   saveWorkflow: () => {
@@ -70,19 +158,153 @@ export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
         currentWorkflow.nodes,
         currentWorkflow.edges,
         currentWorkflow.createdAt,
-        new Date()
+        new Date(),
+        currentWorkflow.description,
+        currentWorkflow.annotations
       );
       set((state) => ({
-        workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
+        workflows: upsertWorkflow(state.workflows, updatedWorkflow),
         currentWorkflow: updatedWorkflow,
       }));
+      storeWorkflow(updatedWorkflow)
+        .then(() => storeVersion(updatedWorkflow))
+        .then(() => {
+          set((state) => ({ savedWorkflows: { ...state.savedWorkflows, [updatedWorkflow.id]: updatedWorkflow } }));
+          return deleteDraft(updatedWorkflow.id);
+        })
+        .catch(error => console.error('Failed to save workflow:', error));
     }
   },
 
   deleteWorkflow: (id: string) => {
+    deleteStoredWorkflow(id).catch(error => console.error('Failed to delete workflow:', error));
     set((state) => ({
       workflows: state.workflows.filter(w => w.id !== id),
       currentWorkflow: state.currentWorkflow?.id === id ? null : state.currentWorkflow,
+      ...(state.currentWorkflow?.id === id ? emptyHistory : {}),
+    }));
+  },
+
+  addWorkflows: (workflows: Workflow[]) => {
+    set((state) => ({
+      workflows: workflows.reduce(upsertWorkflow, state.workflows),
+    }));
+  },
+
+  openSubworkflow: (nodeId: string) => {
+    const { currentWorkflow, workflows, parentWorkflowIds } = get();
+    const childId = currentWorkflow?.findNode(nodeId)?.getConfig<SubworkflowNodeConfig>()?.workflowId;
+    const child = workflows.find(w => w.id === childId);
+    if (!currentWorkflow || !child) return;
+
+    // Keep the parent in the list so its edits survive the round trip.
+    set({
+      workflows: upsertWorkflow(workflows, currentWorkflow),
+      currentWorkflow: child.syncSubworkflowPorts(workflows),
+      parentWorkflowIds: [...parentWorkflowIds, currentWorkflow.id],
+      selectedNode: null,
+      selectedEdge: null,
+      ...emptyHistory,
+    });
+  },
+
+  closeSubworkflow: (workflowId?: string) => {
+    const { workflows, parentWorkflowIds } = get();
+    const index = workflowId ? parentWorkflowIds.indexOf(workflowId) : parentWorkflowIds.length - 1;
+    const parent = workflows.find(w => w.id === parentWorkflowIds[index]);
+    if (!parent) return;
+
+    // The child's ports may have changed while it was open.
+    const synced = parent.syncSubworkflowPorts(workflows);
+    set({
+      workflows: upsertWorkflow(workflows, synced),
+      currentWorkflow: synced,
+      parentWorkflowIds: parentWorkflowIds.slice(0, index),
+      selectedNode: null,
+      selectedEdge: null,
+      ...emptyHistory,
+    });
+  },
+
+  refreshSubworkflowPorts: () => {
+    const { currentWorkflow, workflows, selectedNode } = get();
+    if (!currentWorkflow) return;
+
+    const synced = currentWorkflow.syncSubworkflowPorts(workflows);
+    if (synced === currentWorkflow) return;
+    set((state) => ({
+      currentWorkflow: synced,
+      workflows: state.workflows.map(w => w.id === synced.id ? synced : w),
+      selectedNode: selectedNode ? synced.findNode(selectedNode.id) || null : null,
+      ...recordEdit(state, currentWorkflow),
+    }));
+  },
+
+  hydrate: async () => {
+    try {
+      const [stored, drafts] = await Promise.all([loadStoredWorkflows(), loadDrafts()]);
+      set((state) => ({
+        // Anything created while storage was loading wins over its stored copy.
+        workflows: [...stored.filter(w => !state.workflows.some(open => open.id === w.id)), ...state.workflows],
+        savedWorkflows: { ...Object.fromEntries(stored.map(w => [w.id, w])), ...state.savedWorkflows },
+        recoveredDrafts: drafts,
+      }));
+    } catch (error) {
+      console.error('Failed to load stored workflows:', error);
+    }
+  },
+
+  autosave: () => {
+    const { workflows, currentWorkflow, hasUnsavedChanges, autosavedWorkflows } = get();
+    const open = currentWorkflow ? upsertWorkflow(workflows, currentWorkflow) : workflows;
+    for (const workflow of open) {
+      if (hasUnsavedChanges(workflow)) {
+        if (autosavedWorkflows[workflow.id] === workflow) continue;
+        storeDraft(workflow)
+          .then(() => set((state) => ({ autosavedWorkflows: { ...state.autosavedWorkflows, [workflow.id]: workflow } })))
+          .catch(error => console.error('Failed to autosave workflow:', error));
+      } else if (autosavedWorkflows[workflow.id]) {
+        // Undone back to the saved version; the draft would only prompt a needless recovery.
+        set((state) => ({
+          autosavedWorkflows: Object.fromEntries(Object.entries(state.autosavedWorkflows).filter(([id]) => id !== workflow.id)),
+        }));
+        deleteDraft(workflow.id).catch(error => console.error('Failed to remove draft:', error));
+      }
+    }
+  },
+
+  restoreDrafts: () => {
+    const { recoveredDrafts, currentWorkflow, loadWorkflow } = get();
+    const restored = recoveredDrafts.map(draft => draft.workflow);
+    set((state) => ({
+      workflows: restored.reduce(upsertWorkflow, state.workflows),
+      autosavedWorkflows: { ...state.autosavedWorkflows, ...Object.fromEntries(restored.map(w => [w.id, w])) },
+      recoveredDrafts: [],
+    }));
+    if (!currentWorkflow && restored.length > 0) loadWorkflow(restored[0]);
+  },
+
+  discardDrafts: () => {
+    const { recoveredDrafts } = get();
+    recoveredDrafts.forEach(draft => {
+      deleteDraft(draft.workflow.id).catch(error => console.error('Failed to remove draft:', error));
+    });
+    set({ recoveredDrafts: [] });
+  },
+
+  hasUnsavedChanges: (workflow: Workflow) => get().savedWorkflows[workflow.id] !== workflow,
+
+  // Puts a saved version back on the canvas as an ordinary, undoable edit.
+  restoreVersion: (version: Workflow) => {
+    const { currentWorkflow } = get();
+    if (!currentWorkflow || version.id !== currentWorkflow.id) return;
+
+    set((state) => ({
+      currentWorkflow: version,
+      workflows: state.workflows.map(w => w.id === version.id ? version : w),
+      selectedNode: null,
+      selectedEdge: null,
+      ...recordEdit(state, currentWorkflow),
     }));
   },
 
@@ -92,35 +314,14 @@ export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
       return;
     }
 
-    // --- Start of Fix ---
-    let config: NodeConfig | undefined;
-
-    // Create the specific config object based on the node type
-    switch (type) {
-      case 'llm':
-        config = new LLMNodeConfig();
-        break;
-      case 'tool':
-        config = new ToolNodeConfig();
-        break;
-      case 'interrupt':
-        config = new InterruptNodeConfig();
-        break;
-      case 'userInput':
-        config = new InputNodeConfig();
-        break;  
-      // 'start' and 'end' nodes don't have configs, so they are left undefined
-    }
- 
-
     const node = new WorkflowNode(
       generateId(),
       type,
       position,
       {
-        label: `${type.charAt(0).toUpperCase() + type.slice(1)} Node`,
+        label: `${getNodeTypeDefinition(type)?.label ?? type} Node`,
         description: '',
-        config, // <-- Assign the newly created config object here
+        config: createNodeConfig(type),
       }
     );
 
@@ -129,6 +330,7 @@ export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
     set((state) => ({
       currentWorkflow: updatedWorkflow,
       workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
+      ...recordEdit(state, currentWorkflow),
     }));
   },
 
@@ -146,6 +348,8 @@ export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
       currentWorkflow: updatedWorkflow,
       workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
       selectedNode: state.selectedNode?.id === id ? updatedNode : state.selectedNode,
+      // Each keystroke in a field is an update; merge them per node and field.
+      ...recordEdit(state, currentWorkflow, `node:${id}:${Object.keys(data).sort().join(',')}`),
     }));
   },
 
@@ -162,6 +366,7 @@ export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
     set((state) => ({
       currentWorkflow: updatedWorkflow,
       workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
+      ...recordEdit(state, currentWorkflow, `position:${id}`),
     }));
   },
 
@@ -175,6 +380,134 @@ export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
       currentWorkflow: updatedWorkflow,
       workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
       selectedNode: state.selectedNode?.id === id ? null : state.selectedNode,
+      ...recordEdit(state, currentWorkflow),
+    }));
+  },
+
+  setSelectedNodeIds: (ids: string[]) => {
+    set({ selectedNodeIds: ids });
+  },
+
+  deleteNodes: (ids: string[]) => {
+    const { currentWorkflow } = get();
+    if (!currentWorkflow || ids.length === 0) return;
+
+    const updatedWorkflow = ids.reduce((workflow, id) => workflow.removeNode(id), currentWorkflow);
+
+    set((state) => ({
+      currentWorkflow: updatedWorkflow,
+      workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
+      selectedNode: state.selectedNode && ids.includes(state.selectedNode.id) ? null : state.selectedNode,
+      selectedEdge: state.selectedEdge && !updatedWorkflow.findEdge(state.selectedEdge.id) ? null : state.selectedEdge,
+      selectedNodeIds: [],
+      ...recordEdit(state, currentWorkflow),
+    }));
+  },
+
+  duplicateNodes: (ids: string[]) => {
+    const { currentWorkflow, pasteNodes } = get();
+    if (currentWorkflow && ids.length > 0) pasteNodes(currentWorkflow.extractNodes(ids));
+  },
+
+  // The pasted copies become the selection, so they can be moved together right away.
+  pasteNodes: (fragment: Workflow) => {
+    const { currentWorkflow } = get();
+    if (!currentWorkflow) return;
+
+    const { workflow: updatedWorkflow, nodeIds } = currentWorkflow.pasteNodes(fragment);
+    if (nodeIds.length === 0) return;
+
+    set((state) => ({
+      currentWorkflow: updatedWorkflow,
+      workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
+      selectedNodeIds: nodeIds,
+      selectedNode: null,
+      selectedEdge: null,
+      ...recordEdit(state, currentWorkflow),
+    }));
+  },
+
+  // Moves every node, or only the given ones, to a layered layout in one undoable step.
+  autoArrange: (nodeIds?: string[]) => {
+    const { currentWorkflow, batch, updateNodePosition } = get();
+    if (!currentWorkflow) return;
+
+    const positions = nodeIds
+      ? computeSelectionPositions(currentWorkflow, nodeIds)
+      : computeLayeredPositions(currentWorkflow);
+    batch(() => positions.forEach((position, id) => updateNodePosition(id, position)));
+  },
+
+  addAnnotation: (type: AnnotationType, position: { x: number; y: number }) => {
+    const { currentWorkflow } = get();
+    if (!currentWorkflow) return;
+
+    const annotation = new WorkflowAnnotation(generateId(), type, position, undefined, {
+      color: ANNOTATION_COLORS[type === 'note' ? 0 : 2],
+      ...(type === 'note' ? { text: '' } : { title: 'Group' }),
+    });
+    const updatedWorkflow = currentWorkflow.addAnnotation(annotation);
+
+    set((state) => ({
+      currentWorkflow: updatedWorkflow,
+      workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
+      ...recordEdit(state, currentWorkflow),
+    }));
+  },
+
+  updateAnnotation: (id: string, data: Partial<AnnotationData>) => {
+    const { currentWorkflow } = get();
+    const existing = currentWorkflow?.findAnnotation(id);
+    if (!currentWorkflow || !existing) return;
+
+    const updatedWorkflow = currentWorkflow.updateAnnotation(id, existing.updateData(data));
+
+    set((state) => ({
+      currentWorkflow: updatedWorkflow,
+      workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
+      ...recordEdit(state, currentWorkflow, `annotation:${id}:${Object.keys(data).sort().join(',')}`),
+    }));
+  },
+
+  // Group frames carry the nodes and annotations inside them along.
+  moveAnnotation: (id: string, position: { x: number; y: number }) => {
+    const { currentWorkflow } = get();
+    if (!currentWorkflow?.findAnnotation(id)) return;
+
+    const updatedWorkflow = currentWorkflow.moveAnnotation(id, position);
+
+    set((state) => ({
+      currentWorkflow: updatedWorkflow,
+      workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
+      ...recordEdit(state, currentWorkflow, `position:${id}`),
+    }));
+  },
+
+  // Resizing from the top or left edge moves the annotation too; members stay where they are.
+  resizeAnnotation: (id: string, position: { x: number; y: number }, size: AnnotationSize) => {
+    const { currentWorkflow } = get();
+    const existing = currentWorkflow?.findAnnotation(id);
+    if (!currentWorkflow || !existing) return;
+
+    const updatedWorkflow = currentWorkflow.updateAnnotation(id, existing.updatePosition(position).updateSize(size));
+
+    set((state) => ({
+      currentWorkflow: updatedWorkflow,
+      workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
+      ...recordEdit(state, currentWorkflow),
+    }));
+  },
+
+  deleteAnnotation: (id: string) => {
+    const { currentWorkflow } = get();
+    if (!currentWorkflow) return;
+
+    const updatedWorkflow = currentWorkflow.removeAnnotation(id);
+
+    set((state) => ({
+      currentWorkflow: updatedWorkflow,
+      workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
+      ...recordEdit(state, currentWorkflow),
     }));
   },
 
@@ -183,7 +516,7 @@ export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
     set({ selectedNode: node, selectedEdge: null });
   },
 
-  addEdge: (source: string, target: string, type: EdgeType) => {
+  addEdge: (source: string, target: string, type: EdgeType, sourceHandle?: string, targetHandle?: string) => {
     const { currentWorkflow } = get();
     if (!currentWorkflow) return;
 
@@ -194,7 +527,12 @@ export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
       type,
       {
         label: type === 'conditional' ? 'If true' : '',
-      }
+        config: createEdgeConfig(type),
+      },
+      undefined,
+      undefined,
+      sourceHandle,
+      targetHandle
     );
 
     const updatedWorkflow = currentWorkflow.addEdge(edge);
@@ -202,6 +540,7 @@ export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
     set((state) => ({
       currentWorkflow: updatedWorkflow,
       workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
+      ...recordEdit(state, currentWorkflow),
     }));
   },
 
@@ -221,7 +560,9 @@ export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
       newData.type || existingEdge.type, // Use the new type if provided
       { ...existingEdge.data, ...newData.data }, // Merge the data objects
       newData.animated !== undefined ? newData.animated : existingEdge.animated,
-      { ...existingEdge.style, ...newData.style }
+      { ...existingEdge.style, ...newData.style },
+      'sourceHandle' in newData ? newData.sourceHandle : existingEdge.sourceHandle,
+      'targetHandle' in newData ? newData.targetHandle : existingEdge.targetHandle
     );
     const updatedWorkflow = currentWorkflow.updateEdge(id, updatedEdge);
 
@@ -229,6 +570,7 @@ export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
       currentWorkflow: updatedWorkflow,
       workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
       selectedEdge: state.selectedEdge?.id === id ? updatedEdge : state.selectedEdge,
+      ...recordEdit(state, currentWorkflow),
     }));
   },
 
@@ -242,10 +584,49 @@ export const useWorkflowContext = create<WorkflowContext>((set, get) => ({
       currentWorkflow: updatedWorkflow,
       workflows: state.workflows.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w),
       selectedEdge: state.selectedEdge?.id === id ? null : state.selectedEdge,
+      ...recordEdit(state, currentWorkflow),
     }));
   },
 
   setSelectedEdge: (edge: WorkflowEdge | null) => {
     set({ selectedEdge: edge, selectedNode: null });
   },
+
+  undo: () => {
+    const { currentWorkflow, past, future } = get();
+    const previous = past[past.length - 1];
+    if (!currentWorkflow || !previous) return;
+    set(restore(get(), previous, { past: past.slice(0, -1), future: [currentWorkflow, ...future] }));
+  },
+
+  redo: () => {
+    const { currentWorkflow, past, future } = get();
+    const [next, ...rest] = future;
+    if (!currentWorkflow || !next) return;
+    set(restore(get(), next, { past: [...past, currentWorkflow], future: rest }));
+  },
+
+  batch: (edits: () => void) => {
+    const { currentWorkflow: before, past } = get();
+    edits();
+    const { currentWorkflow } = get();
+    // Replace whatever the individual edits recorded with one step back to `before`.
+    if (before && currentWorkflow && currentWorkflow !== before) {
+      set({ past: [...past, before].slice(-HISTORY_LIMIT), future: [], lastEdit: null });
+    }
+  },
 }));
+
+// Makes `workflow` current again after an undo or redo. The selection follows
+// the restored copies of the selected node and edge, and is cleared if they no
+// longer exist.
+function restore(state: WorkflowContext, workflow: Workflow, history: Pick<History, 'past' | 'future'>): Partial<WorkflowContext> {
+  return {
+    ...history,
+    lastEdit: null,
+    currentWorkflow: workflow,
+    workflows: state.workflows.map(w => w.id === workflow.id ? workflow : w),
+    selectedNode: state.selectedNode ? workflow.findNode(state.selectedNode.id) || null : null,
+    selectedEdge: state.selectedEdge ? workflow.findEdge(state.selectedEdge.id) || null : null,
+  };
+}
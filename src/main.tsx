@@ -1,6 +1,8 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './components/App.tsx';
+// Node types register themselves on import; modules with custom node types are imported here as well.
+import './containers/nodes/builtInNodeTypes';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
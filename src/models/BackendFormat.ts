@@ -0,0 +1,113 @@
+// src/models/BackendFormat.ts
+
+// Shape of the graph files consumed by the workflow runtime. Start and End are
+// implicit (`__start__` / `__end__`), inputs bound to another node's output hold
+// a `$nodeId.outputKey` reference, and nodes carry no canvas coordinates.
+
+export const BACKEND_START = '__start__';
+export const BACKEND_END = '__end__';
+
+export interface BackendNode {
+  id: string;
+  type: string;
+  label?: string;
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown>;
+  // JSON Schema (`type: object`) documents describing each input and output port.
+  input_schema?: Record<string, unknown>;
+  output_schema?: Record<string, unknown>;
+  // For `subworkflow` nodes: the key of the embedded graph in `subgraphs`. Its
+  // inputs feed the subgraph's Start outputs; its outputs are what reaches End.
+  subgraph?: string;
+  policy?: BackendExecutionPolicy;
+}
+
+// How the runtime recovers from a failing node. Attempt n + 1 waits
+// `retry_delay_ms * backoff_multiplier ^ (n - 1)`; `fallback` is used for every
+// output when `on_error` is `fallback`, and `route` follows the source's `on_error` edges.
+export interface BackendExecutionPolicy {
+  retries: number;
+  retry_delay_ms: number;
+  backoff_multiplier: number;
+  timeout_ms?: number;
+  on_error: 'fail' | 'fallback' | 'route';
+  fallback?: unknown;
+}
+
+export interface BackendConditionalEdge {
+  if: { condition: string };
+  node: string;
+}
+
+// One branch of a parallel fan-out; the runtime abandons it after `timeout_ms`.
+export interface BackendParallelBranch {
+  node: string;
+  timeout_ms: number;
+}
+
+// Where parallel branches reconverge. `first_n` continues once `count` branches
+// have finished; the others are cancelled.
+export interface BackendJoin {
+  node: string;
+  mode: 'all' | 'any' | 'first_n';
+  count?: number;
+}
+
+export interface BackendParallelTargets {
+  branches: BackendParallelBranch[];
+  join: BackendJoin;
+}
+
+// An edge back to an earlier node. The runtime goes back at most
+// `max_iterations` times, stops early once `break_condition` holds, and waits
+// `retry_delay_ms * backoff_multiplier ^ n` before the n-th repeat. Conditions
+// can read the count so far as `<node>.iteration`.
+export interface BackendLoop {
+  node: string;
+  max_iterations: number;
+  break_condition?: string;
+  retry_delay_ms: number;
+  backoff_multiplier: number;
+}
+
+export interface BackendEdgeTargets {
+  // Nodes to continue with when the source fails and routes its errors.
+  on_error?: string[];
+  loops?: BackendLoop[];
+  parallel?: BackendParallelTargets;
+  conditional_edges?: BackendConditionalEdge[];
+  nodes?: string[];
+  default?: string;
+}
+
+export interface BackendEdge {
+  from: string;
+  to: BackendEdgeTargets;
+}
+
+export interface BackendWorkflow {
+  version: string;
+  name: string;
+  description?: string;
+  nodes: BackendNode[];
+  edges: BackendEdge[];
+  subgraphs?: Record<string, BackendWorkflow>;
+}
+
+// Matches a whole-value `$nodeId.outputKey` reference.
+export const BINDING_REFERENCE = /^\$([^.\s]+)\.(\S+)$/;
+
+/**
+ * Backend files are told apart from editor files by their edges, which use
+ * `from`/`to` instead of `source`/`target`, and by nodes having no `data`.
+ */
+export function isBackendWorkflow(data: unknown): data is BackendWorkflow {
+  if (!data || typeof data !== 'object') return false;
+  const { nodes, edges } = data as { nodes?: unknown; edges?: unknown };
+  if (!Array.isArray(nodes) || !Array.isArray(edges)) return false;
+
+  const isObject = (value: unknown): value is object => !!value && typeof value === 'object';
+  const edgesLookBackend = edges.every(edge => isObject(edge) && 'from' in edge && 'to' in edge);
+  const nodesLookBackend = nodes.every(node => isObject(node) && !('data' in node));
+  return edgesLookBackend && (edges.length > 0 || (nodes.length > 0 && nodesLookBackend));
+}
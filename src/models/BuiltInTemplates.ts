@@ -0,0 +1,197 @@
+// src/models/BuiltInTemplates.ts
+
+// The templates that ship with the editor. They are built from the model
+// classes, laid out automatically and carry a sticky note explaining how they work.
+
+import { Workflow } from './Workflow';
+import { WorkflowNode, NodeType } from './WorkflowNode';
+import { createNodeConfig } from './NodeTypeRegistry';
+import { WorkflowEdge, EdgeType, BaseEdgeConfig, ConditionalEdgeConfig, LoopingEdgeConfig } from './WorkflowEdge';
+import { WorkflowAnnotation, ANNOTATION_COLORS } from './WorkflowAnnotation';
+import { layoutWorkflow, DEFAULT_LAYOUT_OPTIONS } from './WorkflowLayout';
+import { TemplateField, WorkflowTemplate } from './WorkflowTemplate';
+
+// A node with its type's default inputs, some of them overridden.
+const node = (id: string, type: NodeType, label: string, inputs: Record<string, unknown> = {}) => {
+  const created = new WorkflowNode(id, type, { x: 0, y: 0 }, { label, description: '', config: createNodeConfig(type) });
+  return created.updateData({ inputs: { ...created.data.inputs, ...inputs } });
+};
+
+const edge = (
+  source: string, target: string, type: EdgeType = 'default',
+  options: { sourceHandle?: string; targetHandle?: string; label?: string; config?: BaseEdgeConfig } = {}
+) => new WorkflowEdge(
+  `${source}-${target}`, source, target, type, { label: options.label || '', config: options.config },
+  undefined, undefined, options.sourceHandle, options.targetHandle
+);
+
+const MODEL_FIELD: TemplateField = { key: 'model', label: 'Model', defaultValue: 'gpt-4' };
+
+const template = (
+  id: string, name: string, description: string, fields: TemplateField[],
+  nodes: WorkflowNode[], edges: WorkflowEdge[], note: string
+): WorkflowTemplate => {
+  const laidOut = layoutWorkflow(new Workflow(id, name, nodes, edges, undefined, undefined, description));
+  // The note sits to the right of the graph.
+  const { nodeWidth, horizontalGap } = DEFAULT_LAYOUT_OPTIONS;
+  const right = Math.max(...laidOut.nodes.map(n => n.position.x)) + nodeWidth + horizontalGap;
+  const withNote = laidOut.addAnnotation(new WorkflowAnnotation(
+    `${id}-note`, 'note', { x: right, y: 0 }, { width: 280, height: 200 }, { color: ANNOTATION_COLORS[0], text: note }
+  ));
+  return { id, name, description, fields, data: withNote.toExportObject(), builtIn: true };
+};
+
+const ragQuestionAnswering = () => template(
+  'builtin-rag-qa',
+  'RAG question answering',
+  'Retrieves documents for a question and answers from them only.',
+  [
+    { key: 'domain', label: 'Knowledge domain', defaultValue: 'our product documentation' },
+    { key: 'search_endpoint', label: 'Search endpoint', defaultValue: 'https://search.example.com/query' },
+    MODEL_FIELD,
+  ],
+  [
+    node('start', 'start', 'Question'),
+    node('retrieve', 'tool', 'Retrieve documents', { endpoint: '{{search_endpoint}}', method: 'POST' }),
+    node('answer', 'llm', 'Answer', {
+      model: '{{model}}',
+      system_prompt: 'You answer questions about {{domain}}. Use only the provided context, and say so when it does not contain the answer.',
+      user_prompt: '$start.value',
+    }),
+    node('end', 'end', 'End'),
+  ],
+  [
+    edge('start', 'retrieve', 'default', { sourceHandle: 'value', targetHandle: 'payload' }),
+    edge('retrieve', 'answer', 'default', { sourceHandle: 'result', targetHandle: 'context' }),
+    edge('answer', 'end'),
+  ],
+  '## RAG question answering\n1. **Retrieve documents** sends the question to `{{search_endpoint}}`.\n2. **Answer** replies from the retrieved context only.'
+);
+
+const humanApprovalLoop = () => template(
+  'builtin-approval-loop',
+  'Human approval loop',
+  'Drafts a reply and revises it until a reviewer approves.',
+  [
+    { key: 'artifact', label: 'What is drafted', defaultValue: 'a customer reply' },
+    { key: 'reviewer', label: 'Reviewer', defaultValue: 'the support lead' },
+    MODEL_FIELD,
+  ],
+  [
+    node('start', 'start', 'Request'),
+    node('draft', 'llm', 'Draft', {
+      model: '{{model}}',
+      system_prompt: 'You write {{artifact}}. When the context holds reviewer feedback, revise the previous draft accordingly.',
+      user_prompt: '$start.value',
+    }),
+    node('review', 'interrupt', 'Review', {
+      message: 'Please review {{artifact}} as {{reviewer}}. Reply "approve", or give feedback.',
+      requires_approval: true,
+    }),
+    node('end', 'end', 'End'),
+  ],
+  [
+    edge('start', 'draft'),
+    edge('draft', 'review', 'default', { sourceHandle: 'summary', targetHandle: 'string' }),
+    edge('review', 'draft', 'looping', {
+      sourceHandle: 'value',
+      targetHandle: 'context',
+      label: 'Feedback',
+      config: new LoopingEdgeConfig({ maxIterations: 5, breakCondition: '$review.value == "approve"' }),
+    }),
+    edge('review', 'end'),
+  ],
+  '## Human approval loop\n**Draft** writes {{artifact}} and **Review** pauses for {{reviewer}}.\n\nFeedback goes back to the draft, up to 5 rounds, until the reviewer replies `approve`.'
+);
+
+const toolCallingAgent = () => template(
+  'builtin-tool-agent',
+  'Tool-calling agent',
+  'Plans a tool call, runs it and answers from the result, retrying when it needs more.',
+  [
+    { key: 'task', label: 'Agent task', defaultValue: 'look up the status of orders' },
+    { key: 'tool_name', label: 'Tool name', defaultValue: 'order_lookup' },
+    { key: 'tool_endpoint', label: 'Tool endpoint', defaultValue: 'https://api.example.com/orders' },
+    MODEL_FIELD,
+  ],
+  [
+    node('start', 'start', 'User message'),
+    node('plan', 'llm', 'Plan tool call', {
+      model: '{{model}}',
+      system_prompt: 'You are an agent that helps {{task}}. Reply with only the JSON arguments for the {{tool_name}} tool.',
+      user_prompt: '$start.value',
+    }),
+    node('call', 'tool', 'Call {{tool_name}}', { endpoint: '{{tool_endpoint}}', method: 'POST' }),
+    node('respond', 'llm', 'Respond', {
+      model: '{{model}}',
+      system_prompt: 'Answer the user from the {{tool_name}} result. If it is not enough, reply with exactly NEED_MORE.',
+      user_prompt: '$start.value',
+    }),
+    node('end', 'end', 'End'),
+  ],
+  [
+    edge('start', 'plan'),
+    edge('plan', 'call', 'default', { sourceHandle: 'summary', targetHandle: 'payload' }),
+    edge('call', 'respond', 'default', { sourceHandle: 'result', targetHandle: 'context' }),
+    edge('respond', 'plan', 'looping', {
+      sourceHandle: 'summary',
+      targetHandle: 'context',
+      label: 'Needs more',
+      config: new LoopingEdgeConfig({ maxIterations: 3, breakCondition: '$respond.summary != "NEED_MORE"' }),
+    }),
+    edge('respond', 'end'),
+  ],
+  '## Tool-calling agent\n1. **Plan** writes the arguments for `{{tool_name}}`.\n2. **Call** sends them to the tool.\n3. **Respond** answers, or asks for another round (up to 3).'
+);
+
+const classificationRouter = () => template(
+  'builtin-classification-router',
+  'Classification router',
+  'Classifies a message and routes it to a handler per category.',
+  [
+    { key: 'category_a', label: 'First category', defaultValue: 'billing' },
+    { key: 'category_b', label: 'Second category', defaultValue: 'technical' },
+    MODEL_FIELD,
+  ],
+  [
+    node('start', 'start', 'Message'),
+    node('classify', 'llm', 'Classify', {
+      model: '{{model}}',
+      system_prompt: 'Classify the message as exactly one of: {{category_a}}, {{category_b}}, other. Reply with the category only.',
+    }),
+    node('handle_a', 'llm', 'Handle {{category_a}}', {
+      model: '{{model}}', system_prompt: 'You resolve {{category_a}} requests.', user_prompt: '$start.value',
+    }),
+    node('handle_b', 'llm', 'Handle {{category_b}}', {
+      model: '{{model}}', system_prompt: 'You resolve {{category_b}} requests.', user_prompt: '$start.value',
+    }),
+    node('fallback', 'llm', 'Handle other requests', {
+      model: '{{model}}', system_prompt: 'You help with general requests.', user_prompt: '$start.value',
+    }),
+    node('end', 'end', 'End'),
+  ],
+  [
+    edge('start', 'classify', 'default', { sourceHandle: 'value', targetHandle: 'user_prompt' }),
+    edge('classify', 'handle_a', 'conditional', {
+      label: '{{category_a}}', config: new ConditionalEdgeConfig({ condition: '$classify.summary == "{{category_a}}"' }),
+    }),
+    edge('classify', 'handle_b', 'conditional', {
+      label: '{{category_b}}', config: new ConditionalEdgeConfig({ condition: '$classify.summary == "{{category_b}}"' }),
+    }),
+    edge('classify', 'fallback'),
+    edge('handle_a', 'end'),
+    edge('handle_b', 'end'),
+    edge('fallback', 'end'),
+  ],
+  '## Classification router\n**Classify** labels the message; conditional edges send {{category_a}} and {{category_b}} to their own handler, and anything else to the default branch.'
+);
+
+let builtInTemplates: WorkflowTemplate[] | null = null;
+
+/** The built-in templates, built on first use. */
+export function getBuiltInTemplates(): WorkflowTemplate[] {
+  if (!builtInTemplates) {
+    builtInTemplates = [ragQuestionAnswering(), humanApprovalLoop(), toolCallingAgent(), classificationRouter()];
+  }
+  return builtInTemplates;
+}
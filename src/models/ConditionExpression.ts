@@ -0,0 +1,506 @@
+// src/models/ConditionExpression.ts
+
+// A small, side-effect free expression language for edge conditions such as
+// `$llm_node.summary != "exit" && tool.status == 200`.
+//
+//   expression := or
+//   or         := and (('||' | 'or') and)*
+//   and        := not (('&&' | 'and') not)*
+//   not        := ('!' | 'not') not | comparison
+//   comparison := primary (('==' | '!=' | '>' | '>=' | '<' | '<=') primary)?
+//   primary    := number | string | 'true' | 'false' | 'null' | reference | '(' expression ')'
+//   reference  := '$'? identifier ('.' identifier)*
+//
+// Besides evaluation, the module type-checks conditions against the outputs of
+// upstream nodes and provides highlighting and completion for the editor.
+
+import type { WorkflowNode } from './WorkflowNode';
+import { normalizeSchema } from './PortSchema';
+
+export type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+export type ConditionNode =
+  | { kind: 'literal'; value: string | number | boolean | null; start: number; end: number }
+  | { kind: 'reference'; path: string[]; start: number; end: number }
+  | { kind: 'not'; operand: ConditionNode; start: number; end: number }
+  | { kind: 'logical'; operator: 'and' | 'or'; left: ConditionNode; right: ConditionNode; start: number; end: number }
+  | { kind: 'comparison'; operator: ComparisonOperator; left: ConditionNode; right: ConditionNode; start: number; end: number };
+
+export class ConditionSyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'ConditionSyntaxError';
+    this.position = position;
+  }
+}
+
+type TokenKind = 'number' | 'string' | 'identifier' | 'operator' | 'paren' | 'dot' | 'dollar' | 'invalid' | 'eof';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const OPERATORS = ['==', '!=', '>=', '<=', '&&', '||', '>', '<', '!'];
+
+// In lenient mode (used for highlighting) bad input becomes `invalid` tokens
+// instead of throwing, so half-typed expressions can still be coloured.
+function tokenize(source: string, lenient = false): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(pos))!;
+      tokens.push({ kind: 'number', text: match[0], start: pos, end: pos + match[0].length });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let end = pos + 1;
+      let text = '';
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\' && end + 1 < source.length) end++;
+        text += source[end];
+        end++;
+      }
+      if (end >= source.length) {
+        if (lenient) {
+          tokens.push({ kind: 'invalid', text, start: pos, end: source.length });
+          break;
+        }
+        throw new ConditionSyntaxError('Unterminated string literal', pos);
+      }
+      tokens.push({ kind: 'string', text, start: pos, end: end + 1 });
+      pos = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      // Node ids are generated as `<timestamp>-<random>`, so identifiers may contain dashes.
+      const match = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(source.slice(pos))!;
+      tokens.push({ kind: 'identifier', text: match[0], start: pos, end: pos + match[0].length });
+      pos += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, pos));
+    if (operator) {
+      tokens.push({ kind: 'operator', text: operator, start: pos, end: pos + operator.length });
+      pos += operator.length;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', text: char, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+    if (char === '.') {
+      tokens.push({ kind: 'dot', text: char, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+    if (char === '$') {
+      tokens.push({ kind: 'dollar', text: char, start: pos, end: pos + 1 });
+      pos++;
+      // `$` introduces a node id, and generated ids start with a digit.
+      const match = /^[A-Za-z0-9_][A-Za-z0-9_-]*/.exec(source.slice(pos));
+      if (match) {
+        tokens.push({ kind: 'identifier', text: match[0], start: pos, end: pos + match[0].length });
+        pos += match[0].length;
+      }
+      continue;
+    }
+
+    if (lenient) {
+      tokens.push({ kind: 'invalid', text: char, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+    throw new ConditionSyntaxError(`Unexpected character '${char}'`, pos);
+  }
+
+  tokens.push({ kind: 'eof', text: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'eof') {
+      throw new ConditionSyntaxError(`Unexpected '${next.text}'`, next.start);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private matchOperator(...candidates: string[]): Token | undefined {
+    const token = this.peek();
+    if ((token.kind === 'operator' || token.kind === 'identifier') && candidates.includes(token.text)) {
+      return this.advance();
+    }
+    return undefined;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||', 'or')) {
+      const right = this.parseAnd();
+      left = { kind: 'logical', operator: 'or', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.matchOperator('&&', 'and')) {
+      const right = this.parseNot();
+      left = { kind: 'logical', operator: 'and', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    const token = this.matchOperator('!', 'not');
+    if (token) {
+      const operand = this.parseNot();
+      return { kind: 'not', operand, start: token.start, end: operand.end };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parsePrimary();
+    const token = this.matchOperator('==', '!=', '>', '>=', '<', '<=');
+    if (token) {
+      const right = this.parsePrimary();
+      return {
+        kind: 'comparison', operator: token.text as ComparisonOperator,
+        left, right, start: left.start, end: right.end,
+      };
+    }
+    return left;
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.peek();
+
+    switch (token.kind) {
+      case 'number':
+        this.advance();
+        return { kind: 'literal', value: parseFloat(token.text), start: token.start, end: token.end };
+      case 'string':
+        this.advance();
+        return { kind: 'literal', value: token.text, start: token.start, end: token.end };
+      case 'paren':
+        if (token.text === '(') {
+          this.advance();
+          const inner = this.parseOr();
+          const closing = this.advance();
+          if (closing.kind !== 'paren' || closing.text !== ')') {
+            throw new ConditionSyntaxError("Expected ')'", closing.start);
+          }
+          return { ...inner, start: token.start, end: closing.end };
+        }
+        break;
+      case 'dollar':
+      case 'identifier':
+        return this.parseReference();
+    }
+
+    throw new ConditionSyntaxError(
+      token.kind === 'eof' ? 'Unexpected end of expression' : `Unexpected '${token.text}'`,
+      token.start
+    );
+  }
+
+  private parseReference(): ConditionNode {
+    const first = this.peek();
+    if (first.kind === 'dollar') this.advance();
+
+    const head = this.advance();
+    if (head.kind !== 'identifier') {
+      throw new ConditionSyntaxError('Expected a node reference', head.start);
+    }
+    if (first.kind !== 'dollar') {
+      if (head.text === 'true' || head.text === 'false') {
+        return { kind: 'literal', value: head.text === 'true', start: head.start, end: head.end };
+      }
+      if (head.text === 'null') {
+        return { kind: 'literal', value: null, start: head.start, end: head.end };
+      }
+    }
+
+    const path = [head.text];
+    let end = head.end;
+    while (this.peek().kind === 'dot') {
+      this.advance();
+      const segment = this.advance();
+      if (segment.kind !== 'identifier') {
+        throw new ConditionSyntaxError('Expected a property name after "."', segment.start);
+      }
+      path.push(segment.text);
+      end = segment.end;
+    }
+    return { kind: 'reference', path, start: first.start, end };
+  }
+}
+
+export function parseCondition(source: string): ConditionNode {
+  return new Parser(source).parse();
+}
+
+/**
+ * Evaluates a parsed condition. `resolve` maps a reference path such as
+ * `['llm_node', 'summary']` to its current value.
+ */
+export function evaluateCondition(node: ConditionNode, resolve: (path: string[]) => unknown): unknown {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'reference':
+      return resolve(node.path);
+    case 'not':
+      return !evaluateCondition(node.operand, resolve);
+    case 'logical': {
+      const left = evaluateCondition(node.left, resolve);
+      if (node.operator === 'and') return left ? evaluateCondition(node.right, resolve) : left;
+      return left ? left : evaluateCondition(node.right, resolve);
+    }
+    case 'comparison': {
+      const left = evaluateCondition(node.left, resolve);
+      const right = evaluateCondition(node.right, resolve);
+      switch (node.operator) {
+        case '==': return left == right;
+        case '!=': return left != right;
+        case '>': return (left as number) > (right as number);
+        case '>=': return (left as number) >= (right as number);
+        case '<': return (left as number) < (right as number);
+        case '<=': return (left as number) <= (right as number);
+      }
+    }
+  }
+}
+
+// --- Type checking ---
+
+export type ConditionValueType = 'string' | 'number' | 'boolean' | 'null' | 'unknown';
+
+// An upstream output that a condition may reference, e.g. `summary` of an LLM node.
+export interface ConditionVariable {
+  nodeId: string;
+  nodeLabel: string;
+  output: string;
+  type: ConditionValueType;
+  // How the variable is written in a condition: `label.output` when the label
+  // is a plain identifier, otherwise `$nodeId.output`.
+  reference: string;
+}
+
+export interface ConditionDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  start: number;
+  end: number;
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+const KEYWORDS = ['and', 'or', 'not', 'true', 'false', 'null'];
+
+const toValueType = (declared: unknown): ConditionValueType => {
+  const { type } = normalizeSchema(declared);
+  return type === 'string' || type === 'number' || type === 'boolean' ? type : 'unknown';
+};
+
+// Loop targets expose how many times their loop has gone back to them.
+export const LOOP_ITERATION_OUTPUT = 'iteration';
+
+/**
+ * Lists the outputs of the given nodes as variables a condition can reference.
+ * Nodes listed in `loopTargetIds` also get a numeric `iteration` counter.
+ */
+export function conditionVariables(nodes: WorkflowNode[], loopTargetIds: string[] = []): ConditionVariable[] {
+  const labelCounts = new Map<string, number>();
+  for (const node of nodes) {
+    const label = node.data.label || '';
+    labelCounts.set(label, (labelCounts.get(label) || 0) + 1);
+  }
+
+  return nodes.flatMap(node => {
+    const label = node.data.label || node.id;
+    const usableLabel = IDENTIFIER.test(label) && !KEYWORDS.includes(label) && labelCounts.get(label) === 1;
+    const outputs = Object.entries(node.data.outputs || {});
+    if (loopTargetIds.includes(node.id) && !outputs.some(([output]) => output === LOOP_ITERATION_OUTPUT)) {
+      outputs.push([LOOP_ITERATION_OUTPUT, 'number']);
+    }
+    return outputs.map(([output, declared]) => ({
+      nodeId: node.id,
+      nodeLabel: label,
+      output,
+      type: toValueType(declared),
+      reference: `${usableLabel ? label : `$${node.id}`}.${output}`,
+    }));
+  });
+}
+
+/**
+ * Parses and type-checks a condition. References must name an output of one of
+ * `variables` (by node id or label), `>`/`<` comparisons need numbers, and
+ * comparing values of different types is flagged as a likely mistake.
+ */
+export function checkCondition(source: string, variables: ConditionVariable[]): ConditionDiagnostic[] {
+  let root: ConditionNode;
+  try {
+    root = parseCondition(source);
+  } catch (error) {
+    if (error instanceof ConditionSyntaxError) {
+      return [{ severity: 'error', message: error.message, start: error.position, end: error.position + 1 }];
+    }
+    throw error;
+  }
+
+  const diagnostics: ConditionDiagnostic[] = [];
+  const report = (node: ConditionNode, message: string, severity: ConditionDiagnostic['severity'] = 'error') =>
+    diagnostics.push({ severity, message, start: node.start, end: node.end });
+
+  const typeOf = (node: ConditionNode): ConditionValueType => {
+    switch (node.kind) {
+      case 'literal':
+        return node.value === null ? 'null' : (typeof node.value as ConditionValueType);
+      case 'reference': {
+        const [head, output, ...rest] = node.path;
+        const candidates = variables.filter(v => v.nodeId === head || v.nodeLabel === head);
+        if (candidates.length === 0) {
+          report(node, `"${head}" is not an upstream node of this edge.`);
+          return 'unknown';
+        }
+        if (output === undefined) {
+          report(node, `Reference an output of "${head}", e.g. ${candidates[0].reference}.`);
+          return 'unknown';
+        }
+        const variable = candidates.find(v => v.output === output);
+        if (!variable) {
+          report(node, `"${head}" has no output "${output}". Available: ${candidates.map(v => v.output).join(', ')}.`);
+          return 'unknown';
+        }
+        // Properties of an output are not declared anywhere, so they cannot be checked.
+        return rest.length > 0 ? 'unknown' : variable.type;
+      }
+      case 'not':
+        typeOf(node.operand);
+        return 'boolean';
+      case 'logical':
+        typeOf(node.left);
+        typeOf(node.right);
+        return 'unknown';
+      case 'comparison': {
+        const left = typeOf(node.left);
+        const right = typeOf(node.right);
+        const known = (type: ConditionValueType) => type !== 'unknown';
+        if (['>', '>=', '<', '<='].includes(node.operator)) {
+          for (const [operand, type] of [[node.left, left], [node.right, right]] as const) {
+            if (known(type) && type !== 'number') {
+              report(operand, `"${node.operator}" needs a number, but this is ${type}.`);
+            }
+          }
+        } else if (known(left) && known(right) && left !== right && left !== 'null' && right !== 'null') {
+          report(node, `Comparing ${left} with ${right} relies on type coercion.`, 'warning');
+        }
+        return 'boolean';
+      }
+    }
+  };
+
+  typeOf(root);
+  return diagnostics;
+}
+
+// --- Editor support ---
+
+export type ConditionTokenKind = 'keyword' | 'operator' | 'string' | 'number' | 'reference' | 'punctuation' | 'invalid';
+
+export interface ConditionToken {
+  kind: ConditionTokenKind;
+  start: number;
+  end: number;
+}
+
+/** Splits a (possibly incomplete) condition into coloured spans. Whitespace is not included. */
+export function highlightCondition(source: string): ConditionToken[] {
+  return tokenize(source, true)
+    .filter(token => token.kind !== 'eof')
+    .map(token => {
+      let kind: ConditionTokenKind;
+      switch (token.kind) {
+        case 'identifier':
+          kind = KEYWORDS.includes(token.text) ? 'keyword' : 'reference';
+          break;
+        case 'operator':
+          kind = 'operator';
+          break;
+        case 'dollar':
+        case 'dot':
+          kind = 'reference';
+          break;
+        case 'paren':
+          kind = 'punctuation';
+          break;
+        default:
+          kind = token.kind as ConditionTokenKind;
+      }
+      return { kind, start: token.start, end: token.end };
+    });
+}
+
+export interface ConditionCompletion {
+  // The range of `source` the chosen suggestion replaces.
+  from: number;
+  to: number;
+  suggestions: ConditionVariable[];
+}
+
+/**
+ * Suggests variables for the reference being typed at `cursor`. Before a dot
+ * the partial text is matched against node ids and labels; after it, against
+ * the outputs of that node.
+ */
+export function completeCondition(source: string, cursor: number, variables: ConditionVariable[]): ConditionCompletion {
+  const match = /\$?[A-Za-z0-9_-]*(\.[A-Za-z0-9_-]*)*$/.exec(source.slice(0, cursor))!;
+  const typed = match[0];
+  const from = cursor - typed.length;
+
+  const [head, ...rest] = typed.replace(/^\$/, '').split('.');
+  const suggestions = rest.length === 0
+    ? variables.filter(v => [v.nodeId, v.nodeLabel, v.output].some(text => text.toLowerCase().startsWith(head.toLowerCase())))
+    : variables.filter(v => (v.nodeId === head || v.nodeLabel === head) && v.output.startsWith(rest[0]));
+
+  return { from, to: cursor, suggestions };
+}
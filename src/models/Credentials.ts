@@ -0,0 +1,152 @@
+// src/models/Credentials.ts
+
+// Credentials such as API keys are kept in a vault of named secrets, apart from
+// workflows. Node inputs refer to a secret by name (`secret:openai_prod`), also
+// inside longer text like a header value, and the runtime resolves the reference.
+// Literal credentials found in inputs are reported by the validator and removed
+// from everything that leaves the editor: downloaded JSON and YAML files, the
+// backend export and generated code. Saved, copied and templated workflows
+// keep them, since those stay in the editor and must not lose data.
+
+import type { RawWorkflowData } from './WorkflowMigrations';
+
+export const SECRET_PREFIX = 'secret:';
+
+const SECRET_NAME = /^[A-Za-z0-9_-]+$/;
+const SECRET_REFERENCE = /\bsecret:([A-Za-z0-9_-]+)/g;
+
+// Inputs whose whole value is a credential, e.g. `api_key`, `access_token` or `client_secret`.
+const SENSITIVE_INPUT = /(^|_)(api_?key|token|secret|password|credentials?)$/i;
+
+// Shapes of well-known credentials, matched anywhere in an input.
+const CREDENTIAL_PATTERNS = [
+  /\bsk-[A-Za-z0-9_-]{20,}/g, // OpenAI and Anthropic keys
+  /\bgh[pousr]_[A-Za-z0-9]{36,}/g, // GitHub tokens
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g, // Slack tokens
+  /\bAKIA[0-9A-Z]{16}\b/g, // AWS access key ids
+  /\bAIza[0-9A-Za-z_-]{35}/g, // Google API keys
+  /(?<=\bBearer\s+)(?!secret:)[A-Za-z0-9._~+/-]{20,}=*/g, // Bearer tokens
+];
+
+// What a literal credential inside a longer text is replaced with on export.
+export const REDACTED = '[redacted]';
+
+export const isValidSecretName = (name: string) => SECRET_NAME.test(name);
+
+export const secretReference = (name: string) => `${SECRET_PREFIX}${name}`;
+
+/** The secret name when the whole value is a single reference, otherwise null. */
+export function parseSecretReference(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.startsWith(SECRET_PREFIX)) return null;
+  const name = value.slice(SECRET_PREFIX.length);
+  return isValidSecretName(name) ? name : null;
+}
+
+/** Names of the secrets referenced anywhere in the text, in order of first appearance. */
+export function findSecretReferences(text: string): string[] {
+  return [...new Set([...text.matchAll(SECRET_REFERENCE)].map(match => match[1]))];
+}
+
+// A value typed into a sensitive input that is neither a reference, a binding
+// to another node's output (`$node.key`) nor a template placeholder.
+const isLiteralCredential = (key: string, value: unknown) =>
+  SENSITIVE_INPUT.test(key) && typeof value === 'string' && value.trim() !== ''
+  && !parseSecretReference(value.trim()) && !value.startsWith('$') && !/^\{\{.*\}\}$/.test(value.trim());
+
+const containsCredential = (value: unknown) =>
+  typeof value === 'string' && CREDENTIAL_PATTERNS.some(pattern => new RegExp(pattern).test(value));
+
+/** The inputs that hold a literal credential instead of a `secret:` reference. */
+export function findLiteralCredentials(inputs: Record<string, unknown> = {}): string[] {
+  return Object.entries(inputs)
+    .filter(([key, value]) => isLiteralCredential(key, value) || containsCredential(value))
+    .map(([key]) => key);
+}
+
+/**
+ * A copy of the inputs without literal credentials: sensitive inputs are
+ * emptied and credentials found in other text are replaced with `REDACTED`.
+ * References are kept.
+ */
+export function redactCredentials(inputs: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(inputs).map(([key, value]) => {
+    if (isLiteralCredential(key, value)) return [key, ''];
+    if (typeof value !== 'string') return [key, value];
+    return [key, CREDENTIAL_PATTERNS.reduce((text, pattern) => text.replace(pattern, REDACTED), value)];
+  }));
+}
+
+/** A copy of editor file data (`Workflow.toExportObject`) with every node's inputs redacted. */
+export function redactWorkflowData(data: RawWorkflowData): RawWorkflowData {
+  return {
+    ...data,
+    nodes: (data.nodes || []).map(node => ({
+      ...node,
+      data: node.data?.inputs ? { ...node.data, inputs: redactCredentials(node.data.inputs) } : node.data,
+    })),
+  };
+}
+
+
+// --- VAULT ---
+
+// A secret's value encrypted with AES-GCM under a key derived from the passphrase.
+export interface EncryptedValue {
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+// A vault entry holds either the plain `value` or its `encrypted` form.
+export interface StoredSecret {
+  name: string;
+  description?: string;
+  value?: string;
+  encrypted?: EncryptedValue;
+  updatedAt: string;
+}
+
+// Raised when a passphrase does not decrypt a secret.
+export class SecretDecryptionError extends Error {
+  constructor(name: string) {
+    super(`The passphrase does not unlock "${name}".`);
+    this.name = 'SecretDecryptionError';
+  }
+}
+
+const KEY_ITERATIONS = 250000;
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => btoa(String.fromCharCode(...new Uint8Array(bytes)));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: KEY_ITERATIONS, hash: 'SHA-256' },
+    material, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']
+  );
+};
+
+export async function encryptSecretValue(value: string, passphrase: string): Promise<EncryptedValue> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv }, await deriveKey(passphrase, salt), new TextEncoder().encode(value)
+  );
+  return { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(data) };
+}
+
+/** The secret's value, decrypted with `passphrase` when it is encrypted. */
+export async function readSecretValue(secret: StoredSecret, passphrase: string | null): Promise<string> {
+  if (!secret.encrypted) return secret.value ?? '';
+  if (!passphrase) throw new SecretDecryptionError(secret.name);
+  try {
+    const key = await deriveKey(passphrase, fromBase64(secret.encrypted.salt));
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(secret.encrypted.iv) }, key, fromBase64(secret.encrypted.data)
+    );
+    return new TextDecoder().decode(data);
+  } catch {
+    throw new SecretDecryptionError(secret.name);
+  }
+}
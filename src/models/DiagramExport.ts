@@ -0,0 +1,130 @@
+// src/models/DiagramExport.ts
+
+// Renders a workflow as diagram source for docs and PR descriptions: Mermaid
+// flowcharts and Graphviz DOT. Both use the canvas colours, a distinct shape per
+// node type, and label edges with their conditions, loop limits and joins.
+
+import type { Workflow } from './Workflow';
+import { NodeType } from './WorkflowNode';
+import { WorkflowEdge, EdgeType, ConditionalEdgeConfig, LoopingEdgeConfig, ParallelEdgeConfig } from './WorkflowEdge';
+
+export type DiagramFormat = 'mermaid' | 'dot';
+
+// Matches the edge colours of the canvas. Looping edges share the default colour
+// there but are animated, so diagrams draw them dotted instead.
+const EDGE_COLORS: Record<EdgeType, string> = {
+  default: '#6B7280',
+  conditional: '#F59E0B',
+  parallel: '#8B5CF6',
+  looping: '#6B7280',
+  error: '#E11D48',
+};
+
+// Opening and closing brackets of each node shape in Mermaid. Other registered types are drawn as boxes.
+const MERMAID_SHAPES: Partial<Record<NodeType, [string, string]>> = {
+  start: ['((', '))'],
+  end: ['(((', ')))'],
+  llm: ['[', ']'],
+  tool: ['(', ')'],
+  interrupt: ['{{', '}}'],
+  userInput: ['[/', '/]'],
+  subworkflow: ['[[', ']]'],
+};
+
+const DOT_SHAPES: Partial<Record<NodeType, string>> = {
+  start: 'shape=circle',
+  end: 'shape=doublecircle',
+  llm: 'shape=box',
+  tool: 'shape=box, style=rounded',
+  interrupt: 'shape=hexagon',
+  userInput: 'shape=parallelogram',
+  subworkflow: 'shape=box3d',
+};
+
+/** The text shown on an edge: its condition, loop limit or join, falling back to its label. */
+export function describeEdge(edge: WorkflowEdge): string {
+  const label = edge.data.label || '';
+  switch (edge.type) {
+    case 'conditional':
+      return edge.getConfig<ConditionalEdgeConfig>()?.condition || label;
+    case 'looping': {
+      const config = edge.getConfig<LoopingEdgeConfig>();
+      if (!config) return label || 'loop';
+      const until = config.breakCondition.trim() ? ` until ${config.breakCondition.trim()}` : '';
+      return `loop ≤ ${config.maxIterations}${until}`;
+    }
+    case 'parallel': {
+      const config = edge.getConfig<ParallelEdgeConfig>();
+      if (!config || config.joinMode === 'all') return label;
+      return config.joinMode === 'any' ? 'join: any' : `join: first ${config.joinCount}`;
+    }
+    case 'error':
+      return label || 'on error';
+    default:
+      return label;
+  }
+}
+
+// Diagram node ids must be plain identifiers, so nodes are numbered instead.
+const diagramIds = (workflow: Workflow) => new Map(workflow.nodes.map((node, index) => [node.id, `n${index}`]));
+
+const mermaidText = (text: string) => `"${text.replace(/"/g, '#quot;').replace(/\s*\n\s*/g, ' ')}"`;
+
+/** Renders the workflow as a Mermaid flowchart. */
+export function toMermaid(workflow: Workflow): string {
+  const ids = diagramIds(workflow);
+  const lines = ['flowchart TD'];
+
+  for (const node of workflow.nodes) {
+    const [open, close] = MERMAID_SHAPES[node.type] ?? ['[', ']'];
+    lines.push(`  ${ids.get(node.id)}${open}${mermaidText(node.data.label || node.type)}${close}`);
+  }
+
+  const edges = workflow.edges.filter(edge => ids.has(edge.source) && ids.has(edge.target));
+  edges.forEach(edge => {
+    const arrow = edge.type === 'parallel' ? '==>' : edge.type === 'conditional' || edge.type === 'error' ? '-.->' : '-->';
+    const label = describeEdge(edge);
+    lines.push(`  ${ids.get(edge.source)} ${arrow}${label ? `|${mermaidText(label)}|` : ''} ${ids.get(edge.target)}`);
+  });
+  // Links are styled by their position in the diagram.
+  edges.forEach((edge, index) => {
+    if (edge.type !== 'default') {
+      const dotted = edge.type === 'looping' ? ',stroke-dasharray:2 4' : '';
+      lines.push(`  linkStyle ${index} stroke:${EDGE_COLORS[edge.type]}${dotted}`);
+    }
+  });
+
+  return lines.join('\n');
+}
+
+const dotText = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+/** Renders the workflow as a Graphviz DOT digraph. */
+export function toDot(workflow: Workflow): string {
+  const ids = diagramIds(workflow);
+  const lines = [
+    `digraph ${dotText(workflow.name)} {`,
+    '  rankdir=TB;',
+    '  node [fontname="Helvetica", fontsize=11];',
+    '  edge [fontname="Helvetica", fontsize=9];',
+  ];
+
+  for (const node of workflow.nodes) {
+    lines.push(`  ${ids.get(node.id)} [label=${dotText(node.data.label || node.type)}, ${DOT_SHAPES[node.type] ?? 'shape=box'}];`);
+  }
+
+  for (const edge of workflow.edges) {
+    if (!ids.has(edge.source) || !ids.has(edge.target)) continue;
+    const attributes = [`color="${EDGE_COLORS[edge.type]}"`];
+    const label = describeEdge(edge);
+    if (label) attributes.unshift(`label=${dotText(label)}`);
+    if (edge.type === 'conditional' || edge.type === 'error') attributes.push('style=dashed');
+    if (edge.type === 'parallel') attributes.push('style=bold');
+    // Keep loops from pulling their target below the loop body.
+    if (edge.type === 'looping') attributes.push('style=dotted', 'constraint=false');
+    lines.push(`  ${ids.get(edge.source)} -> ${ids.get(edge.target)} [${attributes.join(', ')}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
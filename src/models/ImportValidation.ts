@@ -0,0 +1,480 @@
+// src/models/ImportValidation.ts
+
+import { isRegisteredNodeType } from './NodeTypeRegistry';
+import { EDGE_TYPES, EdgeType } from './WorkflowEdge';
+import { ANNOTATION_TYPES, ANNOTATION_COLORS, AnnotationType, DEFAULT_ANNOTATION_SIZES } from './WorkflowAnnotation';
+import { RawWorkflowData, RawNodeData, RawEdgeData, RawAnnotationData, CURRENT_FORMAT_VERSION } from './WorkflowMigrations';
+import { BACKEND_START, BACKEND_END, BINDING_REFERENCE } from './BackendFormat';
+import { generateId } from './WorkflowIds';
+
+// A problem in an imported editor file. `path` points into the JSON document,
+// e.g. `nodes[2].data.inputs`. Repairable issues can be fixed by `repairImportData`.
+export interface ImportIssue {
+  path: string;
+  message: string;
+  repairable: boolean;
+}
+
+export class WorkflowImportError extends Error {
+  issues: ImportIssue[];
+
+  constructor(issues: ImportIssue[]) {
+    super(`Invalid workflow file (${issues.length} problem${issues.length === 1 ? '' : 's'})`);
+    this.name = 'WorkflowImportError';
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isValidDate = (value: unknown) =>
+  typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const isPoint = (value: unknown) =>
+  isObject(value) && typeof value.x === 'number' && typeof value.y === 'number';
+
+const isSize = (value: unknown) =>
+  isObject(value) && typeof value.width === 'number' && typeof value.height === 'number'
+  && value.width > 0 && value.height > 0;
+
+/**
+ * Checks an imported editor file against the shape `Workflow.fromImportData`
+ * expects, collecting every problem rather than stopping at the first.
+ */
+export function validateImportData(data: unknown): ImportIssue[] {
+  const issues: ImportIssue[] = [];
+  const issue = (path: string, message: string, repairable = false) =>
+    issues.push({ path, message, repairable });
+
+  if (!isObject(data)) {
+    issue('$', 'File does not contain a workflow object.');
+    return issues;
+  }
+
+  if (data.formatVersion !== undefined) {
+    if (typeof data.formatVersion !== 'number') {
+      issue('formatVersion', 'Format version must be a number.');
+    } else if (data.formatVersion > CURRENT_FORMAT_VERSION) {
+      issue('formatVersion', `Format version ${data.formatVersion} is newer than this editor supports (${CURRENT_FORMAT_VERSION}).`);
+    }
+  }
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    issue('name', 'Workflow name is missing.', true);
+  }
+  for (const key of ['createdAt', 'updatedAt']) {
+    if (data[key] !== undefined && !isValidDate(data[key])) {
+      issue(key, `"${String(data[key])}" is not a valid date.`, true);
+    }
+  }
+
+  // --- Nodes ---
+  const nodeIds = new Set<string>();
+  if (!Array.isArray(data.nodes)) {
+    issue('nodes', 'Nodes must be an array.');
+  } else {
+    data.nodes.forEach((node: unknown, index) => {
+      const path = `nodes[${index}]`;
+      if (!isObject(node)) {
+        issue(path, 'Node must be an object.');
+        return;
+      }
+      if (typeof node.id !== 'string' || !node.id) {
+        issue(`${path}.id`, 'Node id is missing.', true);
+      } else if (nodeIds.has(node.id)) {
+        issue(`${path}.id`, `Duplicate node id "${node.id}".`, true);
+      } else {
+        nodeIds.add(node.id);
+      }
+      if (typeof node.type !== 'string' || !isRegisteredNodeType(node.type)) {
+        issue(`${path}.type`, `Unknown node type "${String(node.type)}".`);
+      }
+      if (!isPoint(node.position)) {
+        issue(`${path}.position`, 'Position must have numeric x and y.', true);
+      }
+      if (!isObject(node.data)) {
+        issue(`${path}.data`, 'Node data is missing.', true);
+        return;
+      }
+      for (const key of ['inputs', 'outputs', 'inputSchemas', 'config']) {
+        if (node.data[key] !== undefined && !isObject(node.data[key])) {
+          issue(`${path}.data.${key}`, `Node ${key} must be an object.`, true);
+        }
+      }
+    });
+  }
+
+  // --- Edges ---
+  const edgeIds = new Set<string>();
+  if (!Array.isArray(data.edges)) {
+    issue('edges', 'Edges must be an array.');
+  } else {
+    data.edges.forEach((edge: unknown, index) => {
+      const path = `edges[${index}]`;
+      if (!isObject(edge)) {
+        issue(path, 'Edge must be an object.');
+        return;
+      }
+      if (typeof edge.id !== 'string' || !edge.id) {
+        issue(`${path}.id`, 'Edge id is missing.', true);
+      } else if (edgeIds.has(edge.id)) {
+        issue(`${path}.id`, `Duplicate edge id "${edge.id}".`, true);
+      } else {
+        edgeIds.add(edge.id);
+      }
+      if (!EDGE_TYPES.includes(edge.type as EdgeType)) {
+        issue(`${path}.type`, `Unknown edge type "${String(edge.type)}".`);
+      }
+      for (const key of ['source', 'target']) {
+        const value = edge[key];
+        if (typeof value !== 'string' || !value) {
+          issue(`${path}.${key}`, `Edge ${key} is missing.`, true);
+        } else if (Array.isArray(data.nodes) && !nodeIds.has(value)) {
+          issue(`${path}.${key}`, `Edge ${key} references missing node "${value}".`, true);
+        }
+      }
+      if (edge.data !== undefined && !isObject(edge.data)) {
+        issue(`${path}.data`, 'Edge data must be an object.', true);
+      } else if (isObject(edge.data) && edge.data.config !== undefined && !isObject(edge.data.config)) {
+        issue(`${path}.data.config`, 'Edge config must be an object.', true);
+      }
+    });
+  }
+
+  // --- Annotations (optional; files from before format version 5 have none) ---
+  if (data.annotations !== undefined && !Array.isArray(data.annotations)) {
+    issue('annotations', 'Annotations must be an array.', true);
+  } else if (Array.isArray(data.annotations)) {
+    const annotationIds = new Set<string>();
+    data.annotations.forEach((annotation: unknown, index) => {
+      const path = `annotations[${index}]`;
+      if (!isObject(annotation)) {
+        issue(path, 'Annotation must be an object.', true);
+        return;
+      }
+      // Annotations share the canvas with nodes, so their ids must not clash either.
+      if (typeof annotation.id !== 'string' || !annotation.id) {
+        issue(`${path}.id`, 'Annotation id is missing.', true);
+      } else if (annotationIds.has(annotation.id) || nodeIds.has(annotation.id)) {
+        issue(`${path}.id`, `Duplicate annotation id "${annotation.id}".`, true);
+      } else {
+        annotationIds.add(annotation.id);
+      }
+      if (!ANNOTATION_TYPES.includes(annotation.type as AnnotationType)) {
+        issue(`${path}.type`, `Unknown annotation type "${String(annotation.type)}".`, true);
+      }
+      if (!isPoint(annotation.position)) {
+        issue(`${path}.position`, 'Position must have numeric x and y.', true);
+      }
+      if (!isSize(annotation.size)) {
+        issue(`${path}.size`, 'Size must have a positive width and height.', true);
+      }
+      if (!isObject(annotation.data) || typeof annotation.data.color !== 'string') {
+        issue(`${path}.data`, 'Annotation data must have a color.', true);
+      }
+    });
+  }
+
+  return issues;
+}
+
+const BACKEND_JOIN_MODES = ['all', 'any', 'first_n'];
+const BACKEND_ERROR_MODES = ['fail', 'fallback', 'route'];
+
+/**
+ * Checks a backend graph file against the shape `Workflow.fromBackendExport`
+ * expects, including its subgraphs. Backend files cannot be repaired, so
+ * every issue is fatal.
+ */
+export function validateBackendData(data: unknown, prefix = ''): ImportIssue[] {
+  const issues: ImportIssue[] = [];
+  const issue = (path: string, message: string) =>
+    issues.push({ path: [prefix, path].filter(Boolean).join('.') || '$', message, repairable: false });
+
+  if (!isObject(data)) {
+    issue('', 'File does not contain a workflow object.');
+    return issues;
+  }
+  if (data.name !== undefined && typeof data.name !== 'string') {
+    issue('name', 'Workflow name must be text.');
+  }
+
+  // --- Nodes ---
+  const nodeIds = new Set<string>();
+  const nodes = Array.isArray(data.nodes) ? data.nodes : [];
+  if (!Array.isArray(data.nodes)) issue('nodes', 'Nodes must be an array.');
+  nodes.forEach((node: unknown, index) => {
+    const path = `nodes[${index}]`;
+    if (!isObject(node)) {
+      issue(path, 'Node must be an object.');
+      return;
+    }
+    if (typeof node.id !== 'string' || !node.id) {
+      issue(`${path}.id`, 'Node id is missing.');
+    } else if (node.id === BACKEND_START || node.id === BACKEND_END) {
+      issue(`${path}.id`, `"${node.id}" is reserved for the implicit Start and End.`);
+    } else if (nodeIds.has(node.id)) {
+      issue(`${path}.id`, `Duplicate node id "${node.id}".`);
+    } else {
+      nodeIds.add(node.id);
+    }
+    // Start and End are implicit in the backend format.
+    if (typeof node.type !== 'string' || !isRegisteredNodeType(node.type) || node.type === 'start' || node.type === 'end') {
+      issue(`${path}.type`, `Unknown node type "${String(node.type)}".`);
+    }
+    for (const key of ['inputs', 'outputs', 'input_schema', 'output_schema']) {
+      if (node[key] !== undefined && !isObject(node[key])) {
+        issue(`${path}.${key}`, `Node ${key} must be an object.`);
+      }
+    }
+    if (node.subgraph !== undefined && typeof node.subgraph !== 'string') {
+      issue(`${path}.subgraph`, 'Subgraph must be the key of an entry in subgraphs.');
+    }
+    if (node.policy !== undefined) {
+      const policy = node.policy;
+      if (!isObject(policy)) {
+        issue(`${path}.policy`, 'Policy must be an object.');
+      } else {
+        for (const key of ['retries', 'retry_delay_ms', 'backoff_multiplier']) {
+          if (typeof policy[key] !== 'number') issue(`${path}.policy.${key}`, `Policy ${key} must be a number.`);
+        }
+        if (!BACKEND_ERROR_MODES.includes(policy.on_error as string)) {
+          issue(`${path}.policy.on_error`, `Unknown error handling "${String(policy.on_error)}".`);
+        }
+      }
+    }
+  });
+
+  // The exporter drops the Start node but keeps the bindings to its outputs, so
+  // exactly one unknown id may appear in bindings. Any other is a dangling reference.
+  let startId: string | undefined;
+  nodes.forEach((node: unknown, index) => {
+    if (!isObject(node) || !isObject(node.inputs)) return;
+    for (const [key, value] of Object.entries(node.inputs)) {
+      const referenced = typeof value === 'string' ? BINDING_REFERENCE.exec(value)?.[1] : undefined;
+      if (!referenced || nodeIds.has(referenced)) continue;
+      if (startId === undefined) {
+        startId = referenced;
+      } else if (referenced !== startId) {
+        issue(`nodes[${index}].inputs.${key}`,
+          `Input references unknown node "${referenced}" (the Start node is "${startId}").`);
+      }
+    }
+  });
+
+  // --- Edges ---
+  const checkTarget = (path: string, target: unknown) => {
+    if (typeof target !== 'string' || !target) {
+      issue(path, 'Edge target is missing.');
+    } else if (target !== BACKEND_END && !nodeIds.has(target)) {
+      issue(path, `Edge target references missing node "${target}".`);
+    }
+  };
+  const checkList = (path: string, list: unknown, check: (path: string, item: unknown) => void) => {
+    if (list === undefined) return;
+    if (!Array.isArray(list)) {
+      issue(path, `${path.slice(path.lastIndexOf('.') + 1)} must be an array.`);
+      return;
+    }
+    list.forEach((item, index) => check(`${path}[${index}]`, item));
+  };
+  const checkNumbers = (path: string, item: Record<string, unknown>, keys: string[]) => {
+    keys.forEach(key => {
+      if (typeof item[key] !== 'number') issue(`${path}.${key}`, `${key} must be a number.`);
+    });
+  };
+
+  if (!Array.isArray(data.edges)) issue('edges', 'Edges must be an array.');
+  (Array.isArray(data.edges) ? data.edges : []).forEach((edge: unknown, index) => {
+    const path = `edges[${index}]`;
+    if (!isObject(edge)) {
+      issue(path, 'Edge must be an object.');
+      return;
+    }
+    if (typeof edge.from !== 'string' || !edge.from) {
+      issue(`${path}.from`, 'Edge source is missing.');
+    } else if (edge.from !== BACKEND_START && !nodeIds.has(edge.from)) {
+      issue(`${path}.from`, `Edge source references missing node "${edge.from}".`);
+    }
+    if (!isObject(edge.to)) {
+      issue(`${path}.to`, 'Edge targets must be an object.');
+      return;
+    }
+    const to = edge.to;
+    checkList(`${path}.to.conditional_edges`, to.conditional_edges, (itemPath, item) => {
+      if (!isObject(item)) {
+        issue(itemPath, 'Conditional edge must be an object.');
+        return;
+      }
+      if (!isObject(item.if) || typeof item.if.condition !== 'string') {
+        issue(`${itemPath}.if`, 'Conditional edge needs an "if" with a condition.');
+      }
+      checkTarget(`${itemPath}.node`, item.node);
+    });
+    if (to.parallel !== undefined) {
+      const parallel = to.parallel;
+      if (!isObject(parallel)) {
+        issue(`${path}.to.parallel`, 'Parallel targets must be an object.');
+      } else {
+        if (parallel.branches === undefined) issue(`${path}.to.parallel.branches`, 'Parallel targets need branches.');
+        checkList(`${path}.to.parallel.branches`, parallel.branches, (itemPath, item) => {
+          if (!isObject(item)) {
+            issue(itemPath, 'Parallel branch must be an object.');
+            return;
+          }
+          checkTarget(`${itemPath}.node`, item.node);
+          checkNumbers(itemPath, item, ['timeout_ms']);
+        });
+        const join = parallel.join;
+        if (!isObject(join)) {
+          issue(`${path}.to.parallel.join`, 'Parallel targets need a join.');
+        } else {
+          checkTarget(`${path}.to.parallel.join.node`, join.node);
+          if (!BACKEND_JOIN_MODES.includes(join.mode as string)) {
+            issue(`${path}.to.parallel.join.mode`, `Unknown join mode "${String(join.mode)}".`);
+          }
+          if (join.count !== undefined && typeof join.count !== 'number') {
+            issue(`${path}.to.parallel.join.count`, 'count must be a number.');
+          }
+        }
+      }
+    }
+    checkList(`${path}.to.on_error`, to.on_error, checkTarget);
+    checkList(`${path}.to.loops`, to.loops, (itemPath, item) => {
+      if (!isObject(item)) {
+        issue(itemPath, 'Loop must be an object.');
+        return;
+      }
+      checkTarget(`${itemPath}.node`, item.node);
+      checkNumbers(itemPath, item, ['max_iterations', 'retry_delay_ms', 'backoff_multiplier']);
+      if (item.break_condition !== undefined && typeof item.break_condition !== 'string') {
+        issue(`${itemPath}.break_condition`, 'break_condition must be text.');
+      }
+    });
+    checkList(`${path}.to.nodes`, to.nodes, checkTarget);
+    if (to.default !== undefined) checkTarget(`${path}.to.default`, to.default);
+  });
+
+  // --- Subgraphs ---
+  if (data.subgraphs !== undefined) {
+    if (!isObject(data.subgraphs)) {
+      issue('subgraphs', 'Subgraphs must be an object.');
+    } else {
+      for (const [key, subgraph] of Object.entries(data.subgraphs)) {
+        issues.push(...validateBackendData(subgraph, [prefix, `subgraphs.${key}`].filter(Boolean).join('.')));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Fixes every repairable issue: regenerates missing or duplicate ids, drops
+ * edges whose endpoints do not exist, and resets malformed fields to defaults.
+ * Returns the repaired data and a description of each change.
+ */
+export function repairImportData(data: Record<string, unknown>): { data: RawWorkflowData; repairs: string[] } {
+  const repairs: string[] = [];
+  const repaired: Record<string, unknown> = { ...data };
+
+  if (typeof repaired.name !== 'string' || !repaired.name.trim()) {
+    repaired.name = 'Imported Workflow';
+    repairs.push('Named the workflow "Imported Workflow".');
+  }
+  for (const key of ['createdAt', 'updatedAt']) {
+    if (repaired[key] !== undefined && !isValidDate(repaired[key])) {
+      repaired[key] = new Date().toISOString();
+      repairs.push(`Reset invalid ${key} to now.`);
+    }
+  }
+
+  const seenNodeIds = new Set<string>();
+  const nodes = (Array.isArray(data.nodes) ? data.nodes : []).filter(isObject).map((node, index) => {
+    const fixed: Record<string, unknown> = { ...node };
+    if (typeof fixed.id !== 'string' || !fixed.id || seenNodeIds.has(fixed.id)) {
+      const previous = fixed.id;
+      fixed.id = generateId();
+      repairs.push(previous
+        ? `Gave duplicate node "${String(previous)}" (nodes[${index}]) the new id "${fixed.id}".`
+        : `Gave nodes[${index}] the id "${fixed.id}".`);
+    }
+    seenNodeIds.add(fixed.id as string);
+
+    if (!isObject(fixed.position) || typeof fixed.position.x !== 'number' || typeof fixed.position.y !== 'number') {
+      fixed.position = { x: 0, y: 0 };
+      repairs.push(`Moved nodes[${index}] to the origin.`);
+    }
+    const nodeData: Record<string, unknown> = isObject(fixed.data) ? { ...fixed.data } : {};
+    if (!isObject(fixed.data)) repairs.push(`Added missing data to nodes[${index}].`);
+    for (const key of ['inputs', 'outputs', 'inputSchemas', 'config']) {
+      if (nodeData[key] !== undefined && !isObject(nodeData[key])) {
+        delete nodeData[key];
+        repairs.push(`Reset nodes[${index}].data.${key} to its defaults.`);
+      }
+    }
+    fixed.data = nodeData;
+    return fixed as RawNodeData;
+  });
+
+  const seenEdgeIds = new Set<string>();
+  const edges: RawEdgeData[] = [];
+  (Array.isArray(data.edges) ? data.edges : []).filter(isObject).forEach((edge, index) => {
+    if (!seenNodeIds.has(edge.source as string) || !seenNodeIds.has(edge.target as string)) {
+      repairs.push(`Dropped edges[${index}] because it references a missing node.`);
+      return;
+    }
+    const fixed: Record<string, unknown> = { ...edge };
+    if (typeof fixed.id !== 'string' || !fixed.id || seenEdgeIds.has(fixed.id)) {
+      fixed.id = generateId();
+      repairs.push(`Gave edges[${index}] the new id "${fixed.id}".`);
+    }
+    seenEdgeIds.add(fixed.id as string);
+
+    const edgeData: Record<string, unknown> = isObject(fixed.data) ? { ...fixed.data } : {};
+    if (edgeData.config !== undefined && !isObject(edgeData.config)) {
+      delete edgeData.config;
+      repairs.push(`Removed the malformed config of edges[${index}].`);
+    }
+    if (!isObject(fixed.data)) repairs.push(`Reset the data of edges[${index}].`);
+    fixed.data = edgeData;
+    edges.push(fixed as RawEdgeData);
+  });
+
+  // Annotations are only notes to the reader, so broken ones are dropped or reset rather than refused.
+  const annotations: RawAnnotationData[] = [];
+  if (data.annotations !== undefined && !Array.isArray(data.annotations)) {
+    repairs.push('Removed malformed annotations.');
+  }
+  (Array.isArray(data.annotations) ? data.annotations : []).forEach((annotation: unknown, index) => {
+    if (!isObject(annotation) || !ANNOTATION_TYPES.includes(annotation.type as AnnotationType)) {
+      repairs.push(`Dropped annotations[${index}] because it is not a note or group.`);
+      return;
+    }
+    const type = annotation.type as AnnotationType;
+    const fixed: Record<string, unknown> = { ...annotation };
+    if (typeof fixed.id !== 'string' || !fixed.id || seenNodeIds.has(fixed.id)) {
+      fixed.id = generateId();
+      repairs.push(`Gave annotations[${index}] the new id "${fixed.id}".`);
+    }
+    seenNodeIds.add(fixed.id as string);
+
+    if (!isPoint(fixed.position)) {
+      fixed.position = { x: 0, y: 0 };
+      repairs.push(`Moved annotations[${index}] to the origin.`);
+    }
+    if (!isSize(fixed.size)) {
+      fixed.size = { ...DEFAULT_ANNOTATION_SIZES[type] };
+      repairs.push(`Reset the size of annotations[${index}].`);
+    }
+    const annotationData: Record<string, unknown> = isObject(fixed.data) ? { ...fixed.data } : {};
+    if (typeof annotationData.color !== 'string') {
+      annotationData.color = ANNOTATION_COLORS[0];
+      repairs.push(`Reset the color of annotations[${index}].`);
+    }
+    fixed.data = annotationData;
+    annotations.push(fixed as RawAnnotationData);
+  });
+
+  return { data: { ...repaired, nodes, edges, annotations }, repairs };
+}
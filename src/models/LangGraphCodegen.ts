@@ -0,0 +1,476 @@
+// src/models/LangGraphCodegen.ts
+
+// Generates a standalone Python module that builds the workflow as a LangGraph
+// `StateGraph`, for teams that want to run a design without our backend.
+//
+// Every node becomes a function that reads its inputs from the shared state and
+// records its outputs under its own name. Start and End map to LangGraph's
+// `START` and `END`; conditional, looping and error edges become routing
+// functions; interrupt and user input nodes pause the graph with `interrupt()`.
+// `secret:name` references are read from the environment variable `NAME`.
+
+import type { Workflow } from './Workflow';
+import { WorkflowNode, BaseNodeConfig, SubworkflowNodeConfig } from './WorkflowNode';
+import { WorkflowEdge, ConditionalEdgeConfig, LoopingEdgeConfig, ParallelEdgeConfig } from './WorkflowEdge';
+import { parseCondition, ConditionNode, LOOP_ITERATION_OUTPUT } from './ConditionExpression';
+import { BINDING_REFERENCE } from './BackendFormat';
+import { findSecretReferences, redactCredentials } from './Credentials';
+
+// Names the generated module already uses, so no node function may take them.
+const RESERVED_NAMES = new Set([
+  'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+  'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not',
+  'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield', 'none', 'true', 'false',
+  'annotations', 'any', 'annotated', 'typeddict', 'json', 'operator', 'os', 're', 'sys', 'time', 'urllib',
+  'state', 'build_graph', 'run', 'graph', 'builder', 'interrupt', 'command', 'memorysaver',
+  'stategraph', 'init_chat_model', 'start', 'end',
+  // LangGraph rejects node names that are also state keys.
+  'input', 'outputs', 'runs', 'errors',
+]);
+
+const usesSecrets = (value: unknown) => typeof value === 'string' && findSecretReferences(value).length > 0;
+
+/** Renders a JSON-like value as a Python literal. */
+function pyLiteral(value: unknown): string {
+  if (value === null || value === undefined) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'None';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(pyLiteral).join(', ')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}: ${pyLiteral(item)}`).join(', ')}}`;
+  }
+  return JSON.stringify(String(value));
+}
+
+const indent = (lines: string[], depth = 1) => lines.map(line => (line ? `${'    '.repeat(depth)}${line}` : line));
+
+// Gives every node a unique snake_case name derived from its label. The name is
+// both the Python function and the LangGraph node name.
+function assignNames(nodes: WorkflowNode[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  for (const node of nodes) {
+    let base = (node.data.label || node.type).toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || node.type;
+    if (/^[0-9]/.test(base)) base = `node_${base}`;
+    if (RESERVED_NAMES.has(base)) base = `${base}_node`;
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) name = `${base}_${suffix}`;
+    used.add(name);
+    names.set(node.id, name);
+  }
+  return names;
+}
+
+class LangGraphGenerator {
+  private workflow: Workflow;
+  private names: Map<string, string>;
+
+  constructor(workflow: Workflow) {
+    this.workflow = workflow;
+    this.names = assignNames(workflow.nodes);
+  }
+
+  private nameOf(nodeId: string): string {
+    return this.names.get(nodeId) || nodeId;
+  }
+
+  // How an edge endpoint is written in `add_edge` calls.
+  private graphTarget(nodeId: string): string {
+    const node = this.workflow.findNode(nodeId);
+    if (node?.isStartNode()) return 'START';
+    if (node?.isEndNode()) return 'END';
+    return JSON.stringify(this.nameOf(nodeId));
+  }
+
+  private isLoopTarget(nodeId: string): boolean {
+    return this.workflow.edges.some(edge => edge.isLooping() && edge.target === nodeId);
+  }
+
+  private condition(source: string): string {
+    if (!source.trim()) return 'False';
+    try {
+      return this.expression(parseCondition(source));
+    } catch {
+      return 'False';
+    }
+  }
+
+  private expression(node: ConditionNode): string {
+    switch (node.kind) {
+      case 'literal':
+        return pyLiteral(node.value);
+      case 'reference': {
+        const [head, ...path] = node.path;
+        const target = this.workflow.findNode(head) || this.workflow.nodes.find(n => n.data.label === head);
+        if (!target) return 'None';
+        const name = JSON.stringify(this.nameOf(target.id));
+        if (path.length === 1 && path[0] === LOOP_ITERATION_OUTPUT
+          && !(LOOP_ITERATION_OUTPUT in (target.data.outputs || {})) && this.isLoopTarget(target.id)) {
+          return `_iteration(state, ${name})`;
+        }
+        return `_ref(state, ${[name, ...path.map(key => JSON.stringify(key))].join(', ')})`;
+      }
+      case 'not':
+        return `not ${this.expression(node.operand)}`;
+      case 'logical':
+        return `(${this.expression(node.left)} ${node.operator} ${this.expression(node.right)})`;
+      case 'comparison':
+        return `_compare(${this.expression(node.left)}, "${node.operator}", ${this.expression(node.right)})`;
+    }
+  }
+
+  // --- Node functions ---
+
+  private inputsLiteral(node: WorkflowNode): string[] {
+    const inputs = redactCredentials({ ...node.data.inputs, ...this.workflow.getInputBindings(node) });
+    const entries = Object.entries(inputs).map(([key, value]) => {
+      const match = typeof value === 'string' ? BINDING_REFERENCE.exec(value) : null;
+      const source = match && this.workflow.findNode(match[1]);
+      const rendered = source
+        ? `_ref(state, ${JSON.stringify(this.nameOf(source.id))}, ${JSON.stringify(match![2])})`
+        : usesSecrets(value) ? `_secrets(${pyLiteral(value)})` : pyLiteral(value);
+      return `${JSON.stringify(key)}: ${rendered},`;
+    });
+    return entries.length > 0 ? ['inputs = {', ...indent(entries), '}'] : ['inputs: dict[str, Any] = {}'];
+  }
+
+  // Statements that compute `outputs` from `inputs` for one attempt of the node.
+  private nodeBody(node: WorkflowNode, policy: BaseNodeConfig | undefined): string[] {
+    const outputKeys = pyLiteral(Object.keys(node.data.outputs || {}));
+    const timeoutSeconds = policy && policy.timeout > 0 ? policy.timeout / 1000 : undefined;
+
+    switch (node.type) {
+      case 'llm':
+        return [
+          'model = init_chat_model(',
+          '    inputs.get("model", "gpt-4"),',
+          '    temperature=inputs.get("temperature"),',
+          '    max_tokens=inputs.get("max_tokens"),',
+          '    api_key=inputs.get("api_key") or None,',
+          ...(timeoutSeconds ? [`    timeout=${timeoutSeconds},`] : []),
+          ')',
+          'prompt = "\\n\\n".join(str(part) for part in (inputs.get("user_prompt"), inputs.get("context")) if part)',
+          'response = model.invoke([("system", inputs.get("system_prompt", "")), ("user", prompt)])',
+          `return dict.fromkeys(${outputKeys}, response.content)`,
+        ];
+      case 'tool':
+        if (String(node.data.inputs?.tool_type || 'API') !== 'API') {
+          return [`raise NotImplementedError(${JSON.stringify(`Implement the ${node.data.inputs?.tool_type} tool "${node.data.label}".`)})`];
+        }
+        return [
+          'method = str(inputs.get("method", "GET")).upper()',
+          'payload = None if method == "GET" else json.dumps(_json(inputs.get("payload"))).encode()',
+          'request = urllib.request.Request(',
+          '    inputs["endpoint"], data=payload, method=method,',
+          '    headers={"Content-Type": "application/json", **_json(inputs.get("headers"))},',
+          ')',
+          `with urllib.request.urlopen(request, timeout=${timeoutSeconds ?? 30}) as response:`,
+          '    result = response.read().decode()',
+          `return dict.fromkeys(${outputKeys}, result)`,
+        ];
+      case 'interrupt':
+        return [
+          'answer = interrupt(inputs)',
+          `return dict.fromkeys(${outputKeys}, answer)`,
+        ];
+      case 'userInput':
+        return [
+          `answer = interrupt({"prompt": ${JSON.stringify(node.data.label || 'Input required')}, **inputs})`,
+          `return dict.fromkeys(${outputKeys}, answer)`,
+        ];
+      case 'subworkflow': {
+        const workflowId = node.getConfig<SubworkflowNodeConfig>()?.workflowId || '';
+        return [`raise NotImplementedError(${JSON.stringify(`Subworkflow "${workflowId}" is not included in the generated module.`)})`];
+      }
+      default:
+        return ['return {}'];
+    }
+  }
+
+  private nodeFunction(node: WorkflowNode): string[] {
+    const name = this.nameOf(node.id);
+    const config = node.getConfig();
+    const policy = config instanceof BaseNodeConfig ? config : undefined;
+    const docstring = [node.data.label, node.data.description].filter(Boolean).join(': ');
+    const lines = [
+      `def ${name}(state: State) -> dict:`,
+      ...(docstring ? indent([JSON.stringify(docstring)]) : []),
+      ...indent(this.inputsLiteral(node)),
+      '',
+      ...indent(['def call() -> dict[str, Any]:']),
+      ...indent(this.nodeBody(node, policy), 2),
+      '',
+    ];
+
+    const call = policy && policy.retries > 0
+      ? `_retry(call, retries=${policy.retries}, delay=${policy.retryDelay / 1000}, backoff=${policy.backoffMultiplier})`
+      : 'call()';
+    if (!policy || policy.onError === 'fail') {
+      lines.push(...indent([`return _record(state, ${JSON.stringify(name)}, ${call})`]));
+      return lines;
+    }
+
+    const recovery = policy.onError === 'fallback'
+      ? `return _record(state, ${JSON.stringify(name)}, dict.fromkeys(${pyLiteral(Object.keys(node.data.outputs || {}))}, ${pyLiteral(policy.getFallbackValue())}))`
+      : `return _record(state, ${JSON.stringify(name)}, {}, error=str(error))`;
+    lines.push(...indent([
+      'try:',
+      `    outputs = ${call}`,
+      'except GraphBubbleUp:',
+      '    raise',
+      'except Exception as error:',
+      `    ${recovery}`,
+      `return _record(state, ${JSON.stringify(name)}, outputs)`,
+    ]));
+    return lines;
+  }
+
+  // --- Edges ---
+
+  private routingFunction(sourceId: string, edges: WorkflowEdge[]): { name: string; lines: string[]; targets: string[] } {
+    const source = this.workflow.findNode(sourceId)!;
+    const sourceName = source.isStartNode() ? 'start' : this.nameOf(sourceId);
+    const targets = new Set<string>();
+    const list = (items: WorkflowEdge[]) => {
+      const rendered = items.map(edge => this.graphTarget(edge.target));
+      rendered.forEach(target => targets.add(target));
+      return `[${rendered.join(', ')}]`;
+    };
+
+    const body: string[] = [];
+    const errorEdges = edges.filter(edge => edge.isError());
+    if (errorEdges.length > 0) {
+      body.push(`if state["errors"].get(${JSON.stringify(sourceName)}):`, `    return ${list(errorEdges)}`);
+    }
+    // A loop goes back while it has repeats left and its break condition does not hold.
+    for (const edge of edges.filter(e => e.isLooping())) {
+      const config = edge.getConfig<LoopingEdgeConfig>() || new LoopingEdgeConfig();
+      const test = `state["runs"].get(${JSON.stringify(sourceName)}, 0) <= ${config.maxIterations}`;
+      const breakCondition = config.breakCondition.trim() ? ` and not ${this.condition(config.breakCondition)}` : '';
+      body.push(`if ${test}${breakCondition}:`, `    return ${list([edge])}`);
+    }
+    const conditional = edges.filter(edge => edge.isConditional());
+    const fallthrough = edges.filter(edge => !edge.isConditional() && !edge.isLooping() && !edge.isError());
+    targets.add('END');
+    const fallback = fallthrough.length > 0 ? list(fallthrough) : '[END]';
+    if (conditional.length > 0) {
+      body.push('targets = []');
+      for (const edge of conditional) {
+        const condition = this.condition(edge.getConfig<ConditionalEdgeConfig>()?.condition || '');
+        body.push(`if ${condition}:`, `    targets.append(${this.graphTarget(edge.target)})`);
+        targets.add(this.graphTarget(edge.target));
+      }
+      body.push(`return targets or ${fallback}`);
+    } else {
+      body.push(`return ${fallback}`);
+    }
+
+    const name = `route_after_${sourceName}`;
+    return { name, lines: [`def ${name}(state: State) -> list[str]:`, ...indent(body)], targets: [...targets] };
+  }
+
+  // Fan-outs that wait for all of their branches become a single LangGraph edge
+  // from every branch's last node into the join, which makes LangGraph wait too.
+  private collectJoins(routedSources: Set<string>) {
+    const joins: { sources: string[]; target: string; edges: Set<WorkflowEdge> }[] = [];
+    const notes: string[] = [];
+    for (const node of this.workflow.nodes) {
+      const branches = this.workflow.getParallelBranches(node.id);
+      const join = branches.length > 1 ? this.workflow.findJoinNode(node.id) : undefined;
+      if (!join || join.isEndNode()) continue;
+      const config = branches[0].getConfig<ParallelEdgeConfig>() || new ParallelEdgeConfig();
+      if (config.joinMode !== 'all') {
+        notes.push(`# "${join.data.label}" runs once per finished branch from "${node.data.label}" (join mode: ${config.joinMode}).`);
+        continue;
+      }
+      const incoming = this.workflow.edges.filter(edge =>
+        edge.target === join.id && !routedSources.has(edge.source)
+        && branches.some(branch => branch.target === edge.source
+          || this.workflow.getUpstreamNodes(edge.source).some(upstream => upstream.id === branch.target))
+      );
+      if (incoming.length > 1) {
+        joins.push({ sources: incoming.map(edge => this.graphTarget(edge.source)), target: this.graphTarget(join.id), edges: new Set(incoming) });
+      }
+    }
+    return { joins, notes };
+  }
+
+  generate(): string {
+    const workflow = this.workflow;
+    const graphNodes = workflow.nodes.filter(node => !node.isStartNode() && !node.isEndNode());
+    const startNode = workflow.getStartNodes()[0];
+    const has = (type: string) => graphNodes.some(node => node.type === type);
+    const usesInterrupts = has('interrupt') || has('userInput');
+    const usesHttp = graphNodes.some(node => node.type === 'tool' && String(node.data.inputs?.tool_type || 'API') === 'API');
+    const usesSecretInputs = graphNodes.some(node => Object.values(node.data.inputs || {}).some(usesSecrets));
+
+    // Sources with conditional, looping or error edges need a routing function.
+    const edgesBySource = new Map<string, WorkflowEdge[]>();
+    for (const edge of workflow.edges) {
+      edgesBySource.set(edge.source, [...(edgesBySource.get(edge.source) || []), edge]);
+    }
+    const routedSources = new Set(
+      [...edgesBySource].filter(([, edges]) => edges.some(edge => edge.isConditional() || edge.isLooping() || edge.isError()))
+        .map(([sourceId]) => sourceId)
+    );
+    const routers = [...routedSources].map(sourceId => ({ sourceId, ...this.routingFunction(sourceId, edgesBySource.get(sourceId)!) }));
+    const { joins, notes } = this.collectJoins(routedSources);
+    const joinedEdges = new Set(joins.flatMap(join => [...join.edges]));
+
+    const edgeLines: string[] = [...notes];
+    for (const [sourceId, edges] of edgesBySource) {
+      if (routedSources.has(sourceId)) continue;
+      for (const edge of edges) {
+        if (!joinedEdges.has(edge)) edgeLines.push(`builder.add_edge(${this.graphTarget(sourceId)}, ${this.graphTarget(edge.target)})`);
+      }
+    }
+    for (const join of joins) edgeLines.push(`builder.add_edge([${join.sources.join(', ')}], ${join.target})`);
+    for (const router of routers) {
+      edgeLines.push(`builder.add_conditional_edges(${this.graphTarget(router.sourceId)}, ${router.name}, [${router.targets.join(', ')}])`);
+    }
+
+    const startOutputs = startNode
+      ? `{${JSON.stringify(this.nameOf(startNode.id))}: dict.fromkeys(${pyLiteral(Object.keys(startNode.data.outputs || {}))}, text)}`
+      : '{}';
+    const summary = [`Generated from the workflow "${workflow.name}".`, workflow.description].filter(Boolean).join('\n\n');
+
+    const lines = [
+      `"""${summary.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}`,
+      '',
+      'Run with: python this_file.py "your input"',
+      '"""',
+      'from __future__ import annotations',
+      '',
+      'import json',
+      'import operator',
+      ...(usesSecretInputs ? ['import os', 'import re'] : []),
+      'import sys',
+      'import time',
+      ...(usesHttp ? ['import urllib.request'] : []),
+      'from typing import Annotated, Any, Callable, Optional, TypedDict',
+      '',
+      ...(has('llm') ? ['from langchain.chat_models import init_chat_model'] : []),
+      ...(usesInterrupts ? ['from langgraph.checkpoint.memory import MemorySaver'] : []),
+      'from langgraph.errors import GraphBubbleUp',
+      'from langgraph.graph import END, START, StateGraph',
+      ...(usesInterrupts ? ['from langgraph.types import Command, interrupt'] : []),
+      '',
+      '',
+      'def _merge(left: dict, right: dict) -> dict:',
+      '    return {**left, **right}',
+      '',
+      '',
+      'class State(TypedDict):',
+      '    input: str',
+      '    # Outputs of every node that has run, by node name and output name.',
+      '    outputs: Annotated[dict[str, dict[str, Any]], _merge]',
+      '    # How many times each node has run; loops use it to count iterations.',
+      '    runs: Annotated[dict[str, int], _merge]',
+      '    # The error of nodes whose last run failed and routes errors onward.',
+      '    errors: Annotated[dict[str, Optional[str]], _merge]',
+      '',
+      '',
+      'def _ref(state: State, node: str, *path: str) -> Any:',
+      '    value: Any = state["outputs"].get(node)',
+      '    for key in path:',
+      '        value = value.get(key) if isinstance(value, dict) else None',
+      '    return value',
+      '',
+      '',
+      'def _iteration(state: State, node: str) -> int:',
+      '    return max(state["runs"].get(node, 0) - 1, 0)',
+      '',
+      '',
+      'def _compare(left: Any, op: str, right: Any) -> bool:',
+      '    operators = {"==": operator.eq, "!=": operator.ne, ">": operator.gt, ">=": operator.ge, "<": operator.lt, "<=": operator.le}',
+      '    try:',
+      '        return bool(operators[op](left, right))',
+      '    except TypeError:',
+      '        return False',
+      '',
+      '',
+      'def _json(value: Any) -> Any:',
+      '    if isinstance(value, str):',
+      '        try:',
+      '            return json.loads(value) if value.strip() else {}',
+      '        except json.JSONDecodeError:',
+      '            return value',
+      '    return value if value is not None else {}',
+      '',
+      '',
+      ...(usesSecretInputs
+        ? [
+          'def _secrets(text: str) -> str:',
+          '    return re.sub(r"\\bsecret:([A-Za-z0-9_-]+)", lambda match: os.environ[match.group(1).upper().replace("-", "_")], text)',
+          '',
+          '',
+        ]
+        : []),
+      'def _retry(call: Callable[[], dict[str, Any]], retries: int, delay: float, backoff: float) -> dict[str, Any]:',
+      '    for attempt in range(retries + 1):',
+      '        try:',
+      '            return call()',
+      '        except GraphBubbleUp:',
+      '            raise',
+      '        except Exception:',
+      '            if attempt == retries:',
+      '                raise',
+      '            time.sleep(delay * backoff ** attempt)',
+      '    raise AssertionError("unreachable")',
+      '',
+      '',
+      'def _record(state: State, node: str, outputs: dict[str, Any], error: Optional[str] = None) -> dict:',
+      '    return {',
+      '        "outputs": {node: outputs},',
+      '        "runs": {node: state["runs"].get(node, 0) + 1},',
+      '        "errors": {node: error},',
+      '    }',
+      '',
+      ...graphNodes.flatMap(node => ['', ...this.nodeFunction(node), '']),
+      ...routers.flatMap(router => ['', ...router.lines, '']),
+      '',
+      'def build_graph():',
+      ...indent([
+        'builder = StateGraph(State)',
+        ...graphNodes.map(node => `builder.add_node(${JSON.stringify(this.nameOf(node.id))}, ${this.nameOf(node.id)})`),
+        '',
+        ...edgeLines,
+        '',
+        usesInterrupts ? 'return builder.compile(checkpointer=MemorySaver())' : 'return builder.compile()',
+      ]),
+      '',
+      '',
+      'def run(text: str) -> dict[str, dict[str, Any]]:',
+      ...indent([
+        'graph = build_graph()',
+        `initial: State = {"input": text, "outputs": ${startOutputs}, "runs": {}, "errors": {}}`,
+        ...(usesInterrupts
+          ? [
+            'config = {"configurable": {"thread_id": "main"}}',
+            'result = graph.invoke(initial, config)',
+            '# Interrupt and user input nodes pause the graph until they get an answer.',
+            'while (snapshot := graph.get_state(config)).next:',
+            '    for task in snapshot.tasks:',
+            '        for pending in task.interrupts:',
+            '            print(json.dumps(pending.value, indent=2, default=str))',
+            '    result = graph.invoke(Command(resume=input("> ")), config)',
+          ]
+          : ['result = graph.invoke(initial)']),
+        'return result["outputs"]',
+      ]),
+      '',
+      '',
+      'if __name__ == "__main__":',
+      '    print(json.dumps(run(" ".join(sys.argv[1:])), indent=2, default=str))',
+      '',
+    ];
+    return lines.join('\n');
+  }
+}
+
+/** Generates a runnable Python module that builds the workflow with LangGraph. */
+export function generateLangGraphCode(workflow: Workflow): string {
+  return new LangGraphGenerator(workflow).generate();
+}
@@ -0,0 +1,50 @@
+// src/models/NodeTypeRegistry.ts
+
+// Everything the model needs to know about a node type, in one place. The
+// built-in types register themselves in `WorkflowNode.ts`; a custom node type
+// is a module that calls `registerNodeType` (or, with its canvas and panel
+// views, `defineNodeType` from the node components) before the editor renders.
+
+import type { WorkflowNode, NodeConfig } from './WorkflowNode';
+import type { BackendNode } from './BackendFormat';
+
+export interface NodeTypeDefinition {
+  type: string;
+  // Shown in the node panel and used for the label of new nodes.
+  label: string;
+  // Ports of a new node: default values of the inputs and schemas (or type names) of the outputs.
+  inputs?: Record<string, unknown>;
+  outputs?: Record<string, unknown>;
+  // Class of the node's config, constructed from the saved fields. Types without one create nodes without a config.
+  configClass?: new (config?: object) => NodeConfig;
+  // A workflow may hold at most one node of this type, like its start and end.
+  unique?: boolean;
+  // Adjusts the node in the runtime export after the common fields are filled in.
+  toBackend?: (node: WorkflowNode, backendNode: BackendNode) => BackendNode;
+}
+
+const definitions = new Map<string, NodeTypeDefinition>();
+
+/** Adds a node type, replacing any earlier definition of the same type. */
+export function registerNodeType(definition: NodeTypeDefinition): void {
+  definitions.set(definition.type, definition);
+}
+
+export function getNodeTypeDefinition(type: string): NodeTypeDefinition | undefined {
+  return definitions.get(type);
+}
+
+/** Every registered node type, in the order they were registered. */
+export function getNodeTypeDefinitions(): NodeTypeDefinition[] {
+  return [...definitions.values()];
+}
+
+export function isRegisteredNodeType(type: string): boolean {
+  return definitions.has(type);
+}
+
+/** A config of the type's config class, or undefined for types without one. */
+export function createNodeConfig(type: string, config?: object): NodeConfig | undefined {
+  const ConfigClass = definitions.get(type)?.configClass;
+  return ConfigClass ? new ConfigClass(config) : undefined;
+}
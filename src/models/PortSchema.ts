@@ -0,0 +1,143 @@
+// src/models/PortSchema.ts
+
+// Types of the values flowing through node ports. Schemas are a subset of JSON
+// Schema so they can be exported as-is. Outputs historically declared their
+// type as a bare string (`'string'`), which is still accepted everywhere.
+
+export type PortType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+
+export const PORT_TYPES: PortType[] = ['string', 'number', 'boolean', 'object', 'array', 'any'];
+
+export interface PortSchema {
+  type: PortType;
+  items?: PortSchema;
+  properties?: Record<string, PortSchema>;
+  description?: string;
+}
+
+export type PortCompatibility = 'compatible' | 'coerced' | 'incompatible';
+
+const isPortType = (value: unknown): value is PortType => PORT_TYPES.includes(value as PortType);
+
+/** Accepts a schema object or the bare type-name shorthand and returns a schema. */
+export function normalizeSchema(value: unknown): PortSchema {
+  if (isPortType(value)) return { type: value };
+  if (value && typeof value === 'object' && isPortType((value as PortSchema).type)) {
+    const schema: PortSchema = { ...(value as PortSchema) };
+    if (schema.items !== undefined) schema.items = normalizeSchema(schema.items);
+    if (schema.properties) {
+      schema.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([key, item]) => [key, normalizeSchema(item)])
+      );
+    }
+    return schema;
+  }
+  return { type: 'any' };
+}
+
+/** Guesses the schema of an input from its default value. */
+export function inferSchema(value: unknown): PortSchema {
+  if (Array.isArray(value)) return { type: 'array', items: value.length > 0 ? inferSchema(value[0]) : { type: 'any' } };
+  switch (typeof value) {
+    case 'string': return { type: 'string' };
+    case 'number': return { type: 'number' };
+    case 'boolean': return { type: 'boolean' };
+    case 'object': return value === null ? { type: 'any' } : { type: 'object' };
+    default: return { type: 'any' };
+  }
+}
+
+/** Collapses a schema that only names a type back to the bare type-name shorthand. */
+export function compactSchema(schema: PortSchema): PortSchema | PortType {
+  return schema.items || schema.properties || schema.description ? schema : schema.type;
+}
+
+/** Short, human-readable form such as `array<number>`. */
+export function formatSchema(schema: PortSchema): string {
+  if (schema.type === 'array') return `array<${formatSchema(schema.items || { type: 'any' })}>`;
+  if (schema.type === 'object' && schema.properties) {
+    const fields = Object.entries(schema.properties).map(([key, item]) => `${key}: ${formatSchema(item)}`);
+    return `{ ${fields.join(', ')} }`;
+  }
+  return schema.type;
+}
+
+/**
+ * Parses the short form produced by `formatSchema` (`string`, `array<number>`)
+ * or a JSON Schema object. Returns undefined when the text is not understood.
+ */
+export function parseSchema(text: string): PortSchema | undefined {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      return isPortType(parsed?.type) ? normalizeSchema(parsed) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  const array = /^array\s*<(.*)>$/.exec(trimmed);
+  if (array) {
+    const items = parseSchema(array[1]);
+    return items && { type: 'array', items };
+  }
+  return isPortType(trimmed) ? { type: trimmed } : undefined;
+}
+
+/**
+ * Decides whether a value described by `source` may feed a port described by
+ * `target`. Anything can be rendered as text, so feeding a string port from a
+ * non-string is allowed but reported as a coercion.
+ */
+export function checkCompatibility(source: PortSchema, target: PortSchema): PortCompatibility {
+  if (source.type === 'any' || target.type === 'any') return 'compatible';
+
+  if (source.type === target.type) {
+    if (source.type === 'array') {
+      return checkCompatibility(source.items || { type: 'any' }, target.items || { type: 'any' });
+    }
+    if (source.type === 'object' && source.properties && target.properties) {
+      let result: PortCompatibility = 'compatible';
+      for (const [key, targetProperty] of Object.entries(target.properties)) {
+        const sourceProperty = source.properties[key];
+        if (!sourceProperty) return 'incompatible';
+        const propertyResult = checkCompatibility(sourceProperty, targetProperty);
+        if (propertyResult === 'incompatible') return 'incompatible';
+        if (propertyResult === 'coerced') result = 'coerced';
+      }
+      return result;
+    }
+    return 'compatible';
+  }
+
+  return target.type === 'string' ? 'coerced' : 'incompatible';
+}
+
+/** Converts a port schema into a standalone JSON Schema document. */
+export function toJsonSchema(schema: PortSchema): Record<string, unknown> {
+  if (schema.type === 'any') return schema.description ? { description: schema.description } : {};
+  const result: Record<string, unknown> = { type: schema.type };
+  if (schema.description) result.description = schema.description;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, item]) => [key, toJsonSchema(item)])
+    );
+  }
+  return result;
+}
+
+/** Reads a schema back from `toJsonSchema` output; a schema without `type` means any. */
+export function fromJsonSchema(json: unknown): PortSchema {
+  if (!json || typeof json !== 'object') return { type: 'any' };
+  const { type, items, properties, description } = json as Record<string, unknown>;
+  const schema: PortSchema = { type: isPortType(type) ? type : 'any' };
+  if (typeof description === 'string') schema.description = description;
+  if (items) schema.items = fromJsonSchema(items);
+  if (properties && typeof properties === 'object') {
+    schema.properties = Object.fromEntries(
+      Object.entries(properties).map(([key, item]) => [key, fromJsonSchema(item)])
+    );
+  }
+  return schema;
+}
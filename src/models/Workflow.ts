@@ -6,13 +6,48 @@ import {
   ConditionalEdgeConfig, 
   ParallelEdgeConfig, 
   LoopingEdgeConfig,
-  LLMNodeConfig,
-  ToolNodeConfig,
-  InputNodeConfig,
-  InterruptNodeConfig,
-  NodeConfig,
-  BaseEdgeConfig
+  SubworkflowNodeConfig,
+  NodeType,
+  EdgeType,
+  EdgeData,
+  BaseEdgeConfig,
+  BaseNodeConfig
 } from './';
+import { validateWorkflow, WorkflowDiagnostic } from './WorkflowValidator';
+import { getNodeTypeDefinition, createNodeConfig } from './NodeTypeRegistry';
+import { redactCredentials } from './Credentials';
+import {
+  BackendWorkflow,
+  BackendNode,
+  BackendEdge,
+  BackendEdgeTargets,
+  BackendParallelTargets,
+  BACKEND_START,
+  BACKEND_END,
+  BINDING_REFERENCE,
+} from './BackendFormat';
+import { layoutWorkflow } from './WorkflowLayout';
+import { generateLangGraphCode } from './LangGraphCodegen';
+import { toMermaid, toDot } from './DiagramExport';
+import { workflowToYaml } from './WorkflowYaml';
+import { extractNodes, pasteNodes, PASTE_OFFSET } from './WorkflowClipboard';
+import { WorkflowAnnotation, AnnotationType, AnnotationData, getGroupMembers, moveAnnotation } from './WorkflowAnnotation';
+import { migrateWorkflowData, CURRENT_FORMAT_VERSION, RawWorkflowData } from './WorkflowMigrations';
+import { validateImportData, validateBackendData, WorkflowImportError } from './ImportValidation';
+import { ConditionVariable, conditionVariables } from './ConditionExpression';
+import { PortSchema, PortCompatibility, toJsonSchema, fromJsonSchema, compactSchema, checkCompatibility } from './PortSchema';
+import { generateId } from './WorkflowIds';
+
+const portsToJsonSchema = (keys: string[], schemaOf: (key: string) => PortSchema) => ({
+  type: 'object',
+  properties: Object.fromEntries(keys.map(key => [key, toJsonSchema(schemaOf(key))])),
+});
+
+const mapValues = <T, U>(record: Record<string, T>, transform: (value: T, key: string) => U): Record<string, U> =>
+  Object.fromEntries(Object.entries(record).map(([key, value]) => [key, transform(value, key)]));
+
+const jsonSchemaToPorts = (json: Record<string, unknown>): Record<string, PortSchema> =>
+  mapValues((json.properties || {}) as Record<string, unknown>, fromJsonSchema);
 
 export class Workflow {
   id: string;
@@ -20,86 +55,232 @@ export class Workflow {
   description: string;
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
+  // Sticky notes and group frames; they are saved with the editor file but never run.
+  annotations: WorkflowAnnotation[];
   createdAt: Date;
   updatedAt: Date;
 
   constructor(
     id: string, name: string, nodes: WorkflowNode[] = [], edges: WorkflowEdge[] = [],
-    createdAt: Date = new Date(), updatedAt: Date = new Date(), description: string = ''
+    createdAt: Date = new Date(), updatedAt: Date = new Date(), description: string = '',
+    annotations: WorkflowAnnotation[] = []
   ) {
     this.id = id;
     this.name = name;
     this.description = description;
     this.nodes = nodes;
     this.edges = edges;
+    this.annotations = annotations;
     this.createdAt = createdAt;
     this.updatedAt = updatedAt;
   }
 
-  static fromImportData(importedData: any): Workflow {
+  /**
+   * Rebuilds a workflow from an editor export. The file is checked with
+   * `validateImportData` first; any problem raises a `WorkflowImportError`
+   * listing every issue, so callers can offer `repairImportData`.
+   */
+  static fromImportData(importedData: unknown): Workflow {
+    const issues = validateImportData(importedData);
+    if (issues.length > 0) throw new WorkflowImportError(issues);
+
+    // Bring files written by older versions of the editor up to today's shape first
+    const data = migrateWorkflowData(importedData as RawWorkflowData).data;
+
     // Re-hydrate nodes with proper config class instances
-    const reconstructedNodes = importedData.nodes.map((nodeData: any) => {
-      let configInstance: NodeConfig | undefined;
-      if (nodeData.data.config) {
-        switch (nodeData.type) {
-          case 'llm':
-            configInstance = new LLMNodeConfig(nodeData.data.config);
-            break;
-          case 'tool':
-            configInstance = new ToolNodeConfig(nodeData.data.config);
-            break;
-          case 'interrupt':
-            configInstance = new InterruptNodeConfig(nodeData.data.config);
-            break;
-          case 'userInput':
-            configInstance = new InputNodeConfig(nodeData.data.config);
-            break;  
-        }
-      }
+    const reconstructedNodes = (data.nodes || []).map(nodeData => {
+      const config = nodeData.data?.config;
+      const configInstance = config ? createNodeConfig(nodeData.type, config) : undefined;
       return new WorkflowNode(
-        nodeData.id, nodeData.type, nodeData.position,
+        nodeData.id, nodeData.type as NodeType, nodeData.position as { x: number; y: number },
         { ...nodeData.data, config: configInstance }
       );
     });
 
     // Re-hydrate edges with proper config class instances
-    const reconstructedEdges = importedData.edges.map((edgeData: any) => {
+    const reconstructedEdges = (data.edges || []).map(edgeData => {
+      const edgeFields = (edgeData.data || {}) as EdgeData;
       let configInstance: BaseEdgeConfig | undefined;
-      if (edgeData.data.config) {
+      if (edgeFields.config) {
         switch (edgeData.type) {
           case 'conditional':
-            configInstance = new ConditionalEdgeConfig(edgeData.data.config);
+            configInstance = new ConditionalEdgeConfig(edgeFields.config);
             break;
           case 'parallel':
-            configInstance = new ParallelEdgeConfig(edgeData.data.config);
+            configInstance = new ParallelEdgeConfig(edgeFields.config);
             break;
           case 'looping':
-            configInstance = new LoopingEdgeConfig(edgeData.data.config);
+            configInstance = new LoopingEdgeConfig(edgeFields.config);
             break;
         }
       }
       return new WorkflowEdge(
-        edgeData.id, edgeData.source, edgeData.target, edgeData.type,
-        { ...edgeData.data, config: configInstance }
+        edgeData.id, edgeData.source, edgeData.target, edgeData.type as EdgeType,
+        { ...edgeFields, config: configInstance },
+        edgeData.animated as boolean | undefined, edgeData.style as Record<string, unknown> | undefined,
+        edgeData.sourceHandle, edgeData.targetHandle
       );
     });
 
+    const reconstructedAnnotations = (data.annotations || []).map(annotationData => new WorkflowAnnotation(
+      annotationData.id, annotationData.type as AnnotationType,
+      annotationData.position as { x: number; y: number },
+      annotationData.size as { width: number; height: number },
+      annotationData.data as unknown as AnnotationData
+    ));
+
     return new Workflow(
-      importedData.id || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      importedData.name,
+      (data.id as string) || generateId(),
+      data.name as string,
       reconstructedNodes,
       reconstructedEdges,
-      importedData.createdAt ? new Date(importedData.createdAt) : new Date(),
-      importedData.updatedAt ? new Date(importedData.updatedAt) : new Date(),
-      importedData.description || ''
+      data.createdAt ? new Date(data.createdAt as string) : new Date(),
+      data.updatedAt ? new Date(data.updatedAt as string) : new Date(),
+      (data.description as string) || '',
+      reconstructedAnnotations
     );
   }
 
-  
+  /**
+   * Rebuilds an editable workflow from the backend format produced by
+   * `toBackendExportObject`. Input bindings (`$node.key`) become port-bound
+   * edges, and nodes are laid out automatically since the format has no positions.
+   * Pass `id` to keep a known id, e.g. the key of a named subgraph. The file is
+   * checked with `validateBackendData` first; any problem raises a `WorkflowImportError`.
+   */
+  static fromBackendExport(backendData: BackendWorkflow, id: string = generateId()): Workflow {
+    const issues = validateBackendData(backendData);
+    if (issues.length > 0) throw new WorkflowImportError(issues);
+
+    const backendIds = new Set(backendData.nodes.map(node => node.id));
+
+    // The exporter drops the Start node but keeps references to its outputs,
+    // so an unknown id in a binding is the Start node's original id.
+    const referencedIds = backendData.nodes.flatMap(node =>
+      Object.values(node.inputs || {})
+        .map(value => (typeof value === 'string' ? BINDING_REFERENCE.exec(value)?.[1] : undefined))
+        .filter((id): id is string => !!id && !backendIds.has(id))
+    );
+    const startId = referencedIds[0] || BACKEND_START;
+    const endId = BACKEND_END;
+    const resolveId = (id: string) => (id === BACKEND_START ? startId : id === BACKEND_END ? endId : id);
+
+    // Pull the bindings out of the inputs; they are re-attached to edges below.
+    const pendingBindings: { source: string; sourceHandle: string; target: string; targetHandle: string }[] = [];
+    const nodes: WorkflowNode[] = backendData.nodes.map((backendNode: BackendNode) => {
+      const inputs: Record<string, unknown> = { ...backendNode.inputs };
+      for (const [key, value] of Object.entries(inputs)) {
+        const match = typeof value === 'string' ? BINDING_REFERENCE.exec(value) : null;
+        if (match && (backendIds.has(match[1]) || match[1] === startId)) {
+          pendingBindings.push({ source: match[1], sourceHandle: match[2], target: backendNode.id, targetHandle: key });
+          inputs[key] = '';
+        }
+      }
+      const type = backendNode.type as NodeType;
+      let config = backendNode.subgraph
+        ? new SubworkflowNodeConfig({ workflowId: backendNode.subgraph })
+        : createNodeConfig(type);
+      const { policy } = backendNode;
+      if (config && policy) {
+        config = config.withPolicy({
+          retries: policy.retries,
+          retryDelay: policy.retry_delay_ms,
+          backoffMultiplier: policy.backoff_multiplier,
+          timeout: policy.timeout_ms ?? 0,
+          onError: policy.on_error,
+          fallbackValue: policy.fallback === undefined ? ''
+            : typeof policy.fallback === 'string' ? policy.fallback : JSON.stringify(policy.fallback),
+        });
+      }
+      return new WorkflowNode(backendNode.id, type, { x: 0, y: 0 }, {
+        label: backendNode.label || `${getNodeTypeDefinition(type)?.label ?? type} Node`,
+        description: '',
+        config,
+        inputs,
+        outputs: backendNode.output_schema
+          ? mapValues(jsonSchemaToPorts(backendNode.output_schema), compactSchema)
+          : { ...backendNode.outputs },
+        inputSchemas: backendNode.input_schema ? jsonSchemaToPorts(backendNode.input_schema) : undefined,
+      });
+    });
+
+    nodes.unshift(new WorkflowNode(startId, 'start', { x: 0, y: 0 }, { label: 'Start Node', description: '' }));
+    nodes.push(new WorkflowNode(endId, 'end', { x: 0, y: 0 }, { label: 'End Node', description: '' }));
+
+    // Each control-flow edge picks up one binding between the same pair of
+    // nodes, mirroring how the editor stores one edge per connection.
+    const edges: WorkflowEdge[] = [];
+    const addEdge = (from: string, to: string, type: EdgeType, data: WorkflowEdge['data']) => {
+      const source = resolveId(from);
+      const target = resolveId(to);
+      const bindingIndex = pendingBindings.findIndex(b => b.source === source && b.target === target);
+      const binding = bindingIndex >= 0 ? pendingBindings.splice(bindingIndex, 1)[0] : undefined;
+      edges.push(new WorkflowEdge(
+        generateId(), source, target, type, data, undefined, undefined,
+        binding?.sourceHandle, binding?.targetHandle
+      ));
+    };
+
+    backendData.edges.forEach((backendEdge: BackendEdge) => {
+      const to: BackendEdgeTargets = backendEdge.to || {};
+      (to.conditional_edges || []).forEach(conditional => {
+        addEdge(backendEdge.from, conditional.node, 'conditional', {
+          label: conditional.if.condition,
+          config: new ConditionalEdgeConfig({ condition: conditional.if.condition }),
+        });
+      });
+      if (to.parallel) {
+        const { join } = to.parallel;
+        to.parallel.branches.forEach(branch => {
+          addEdge(backendEdge.from, branch.node, 'parallel', {
+            label: '',
+            config: new ParallelEdgeConfig({
+              joinNodeId: resolveId(join.node),
+              joinMode: join.mode === 'first_n' ? 'firstN' : join.mode,
+              joinCount: join.count ?? 2,
+              timeout: branch.timeout_ms,
+            }),
+          });
+        });
+      }
+      (to.on_error || []).forEach(target => addEdge(backendEdge.from, target, 'error', { label: '' }));
+      (to.loops || []).forEach(loop => {
+        addEdge(backendEdge.from, loop.node, 'looping', {
+          label: '',
+          config: new LoopingEdgeConfig({
+            maxIterations: loop.max_iterations,
+            breakCondition: loop.break_condition || '',
+            retryDelay: loop.retry_delay_ms,
+            backoffMultiplier: loop.backoff_multiplier,
+          }),
+        });
+      });
+      if (to.default) addEdge(backendEdge.from, to.default, 'default', { label: '' });
+      (to.nodes || []).forEach(target => addEdge(backendEdge.from, target, 'default', { label: '' }));
+    });
+
+    // Bindings with no matching control-flow edge stay as literal references.
+    pendingBindings.forEach(binding => {
+      const node = nodes.find(n => n.id === binding.target)!;
+      node.data.inputs![binding.targetHandle] = `$${binding.source}.${binding.sourceHandle}`;
+    });
+
+    const workflow = new Workflow(
+      id, backendData.name || 'Imported Workflow', nodes, edges,
+      new Date(), new Date(), backendData.description || ''
+    );
+    return layoutWorkflow(workflow);
+  }
+
+  /** Rebuilds the named subgraphs of a backend export, keeping their ids so subworkflow nodes still resolve. */
+  static subgraphsFromBackendExport(backendData: BackendWorkflow): Workflow[] {
+    return Object.entries(backendData.subgraphs || {}).map(([id, subgraph]) => Workflow.fromBackendExport(subgraph, id));
+  }
+
   addNode(node: WorkflowNode): Workflow {
     return new Workflow(
       this.id, this.name, [...this.nodes, node], this.edges,
-      this.createdAt, new Date(), this.description
+      this.createdAt, new Date(), this.description, this.annotations
     );
   }
   removeNode(nodeId: string): Workflow {
@@ -109,31 +290,76 @@ export class Workflow {
     );
     return new Workflow(
       this.id, this.name, filteredNodes, filteredEdges,
-      this.createdAt, new Date(), this.description
+      this.createdAt, new Date(), this.description, this.annotations
     );
   }
+
+  /** The given nodes and the edges between them, e.g. to copy them to the clipboard. */
+  extractNodes(nodeIds: string[]): Workflow {
+    return extractNodes(this, nodeIds);
+  }
+
+  /** Adds copies of a fragment's nodes and edges under fresh ids; see `pasteNodes`. */
+  pasteNodes(fragment: Workflow, offset = PASTE_OFFSET): { workflow: Workflow; nodeIds: string[] } {
+    return pasteNodes(this, fragment, offset);
+  }
+
   updateNode(nodeId: string, updatedNode: WorkflowNode): Workflow {
     const updatedNodes = this.nodes.map(node =>
       node.id === nodeId ? updatedNode : node
     );
     return new Workflow(
       this.id, this.name, updatedNodes, this.edges,
-      this.createdAt, new Date(), this.description
+      this.createdAt, new Date(), this.description, this.annotations
     );
   }
   addEdge(edge: WorkflowEdge): Workflow {
     return new Workflow(
       this.id, this.name, this.nodes, [...this.edges, edge],
-      this.createdAt, new Date(), this.description
+      this.createdAt, new Date(), this.description, this.annotations
     );
   }
   removeEdge(edgeId: string): Workflow {
     const filteredEdges = this.edges.filter(edge => edge.id !== edgeId);
     return new Workflow(
       this.id, this.name, this.nodes, filteredEdges,
-      this.createdAt, new Date(), this.description
+      this.createdAt, new Date(), this.description, this.annotations
+    );
+  }
+
+  addAnnotation(annotation: WorkflowAnnotation): Workflow {
+    return new Workflow(
+      this.id, this.name, this.nodes, this.edges,
+      this.createdAt, new Date(), this.description, [...this.annotations, annotation]
     );
   }
+  updateAnnotation(annotationId: string, updatedAnnotation: WorkflowAnnotation): Workflow {
+    return new Workflow(
+      this.id, this.name, this.nodes, this.edges,
+      this.createdAt, new Date(), this.description,
+      this.annotations.map(annotation => annotation.id === annotationId ? updatedAnnotation : annotation)
+    );
+  }
+  removeAnnotation(annotationId: string): Workflow {
+    return new Workflow(
+      this.id, this.name, this.nodes, this.edges,
+      this.createdAt, new Date(), this.description,
+      this.annotations.filter(annotation => annotation.id !== annotationId)
+    );
+  }
+  findAnnotation(annotationId: string): WorkflowAnnotation | undefined {
+    return this.annotations.find(annotation => annotation.id === annotationId);
+  }
+
+  /** The nodes and annotations a group frame contains; see `getGroupMembers`. */
+  getGroupMembers(groupId: string): { nodeIds: string[]; annotationIds: string[] } {
+    return getGroupMembers(this, groupId);
+  }
+
+  /** Moves an annotation, and the members of a group frame with it. */
+  moveAnnotation(annotationId: string, position: { x: number; y: number }): Workflow {
+    return moveAnnotation(this, annotationId, position);
+  }
 
   // Method to find an edge by id
   findEdge(edgeId: string): WorkflowEdge | undefined {
@@ -147,7 +373,7 @@ export class Workflow {
     );
     return new Workflow(
       this.id, this.name, this.nodes, updatedEdges,
-      this.createdAt, new Date(), this.description
+      this.createdAt, new Date(), this.description, this.annotations
     );
   }
 
@@ -157,68 +383,300 @@ export class Workflow {
   getStartNodes(): WorkflowNode[] {
     return this.nodes.filter(node => node.type === 'start');
   }
+
+  /**
+   * Returns the `$sourceId.outputKey` references bound to a node's inputs by
+   * incoming edges, keyed by the input port each edge targets.
+   */
+  getInputBindings(node: WorkflowNode): Record<string, string> {
+    const bindings: Record<string, string> = {};
+    this.edges.forEach(edge => {
+      if (edge.target === node.id && edge.targetHandle) {
+        const sourceNode = this.findNode(edge.source);
+        const outputKey = edge.sourceHandle || Object.keys(sourceNode?.data.outputs || {})[0];
+        if (sourceNode && outputKey) {
+          bindings[edge.targetHandle] = `$${sourceNode.id}.${outputKey}`;
+        }
+      }
+    });
+    return bindings;
+  }
+
+  /**
+   * Checks whether connecting an output port to an input port is type-safe.
+   * Handles default to the node's first port, matching how untyped edges bind.
+   */
+  checkConnection(
+    sourceId: string, sourceHandle: string | null | undefined,
+    targetId: string, targetHandle: string | null | undefined
+  ): PortCompatibility {
+    const sourceNode = this.findNode(sourceId);
+    const targetNode = this.findNode(targetId);
+    const outputKey = sourceHandle || Object.keys(sourceNode?.data.outputs || {})[0];
+    const inputKey = targetHandle || Object.keys(targetNode?.data.inputs || {})[0];
+    if (!sourceNode || !targetNode || !outputKey || !inputKey) return 'compatible';
+    return checkCompatibility(sourceNode.getOutputSchema(outputKey), targetNode.getInputSchema(inputKey));
+  }
+
+  /**
+   * Variables a condition on an edge leaving `sourceId` may reference: outputs
+   * of the nodes that ran before it, plus the iteration counter of loop targets.
+   */
+  getConditionVariables(sourceId: string): ConditionVariable[] {
+    const loopTargetIds = this.edges.filter(edge => edge.isLooping()).map(edge => edge.target);
+    return conditionVariables(this.getUpstreamNodes(sourceId), loopTargetIds);
+  }
+
+  /**
+   * Returns the given node and every node that can run before it, i.e. the
+   * nodes whose outputs are available once it has executed.
+   */
+  getUpstreamNodes(nodeId: string): WorkflowNode[] {
+    const visited = new Set<string>([nodeId]);
+    const queue = [nodeId];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of this.edges) {
+        if (edge.target === current && !visited.has(edge.source)) {
+          visited.add(edge.source);
+          queue.push(edge.source);
+        }
+      }
+    }
+    return this.nodes.filter(node => visited.has(node.id));
+  }
+
+  /** The parallel edges leaving a node; each one is a branch of its fan-out. */
+  getParallelBranches(sourceId: string): WorkflowEdge[] {
+    return this.edges.filter(edge => edge.source === sourceId && edge.isParallel());
+  }
+
+  /**
+   * Finds where the parallel branches leaving `sourceId` reconverge: the
+   * configured join node if there is one, otherwise the nearest node that every
+   * branch leads to (looping edges are ignored).
+   */
+  findJoinNode(sourceId: string): WorkflowNode | undefined {
+    const branches = this.getParallelBranches(sourceId);
+    if (branches.length === 0) return undefined;
+
+    const configured = branches[0].getConfig<ParallelEdgeConfig>()?.joinNodeId;
+    if (configured) return this.findNode(configured);
+
+    const distancesFrom = (rootId: string) => {
+      const distances = new Map<string, number>([[rootId, 0]]);
+      const queue = [rootId];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const edge of this.edges) {
+          if (edge.source === current && !edge.isLooping() && !distances.has(edge.target)) {
+            distances.set(edge.target, distances.get(current)! + 1);
+            queue.push(edge.target);
+          }
+        }
+      }
+      return distances;
+    };
+    const branchDistances = branches.map(edge => distancesFrom(edge.target));
+
+    let join: WorkflowNode | undefined;
+    let joinDistance = Infinity;
+    for (const node of this.nodes) {
+      if (!branchDistances.every(distances => distances.has(node.id))) continue;
+      const distance = Math.max(...branchDistances.map(distances => distances.get(node.id)!));
+      if (distance < joinDistance) {
+        join = node;
+        joinDistance = distance;
+      }
+    }
+    return join;
+  }
+
+  /**
+   * The ports this workflow exposes when embedded as a subworkflow: the Start
+   * node's outputs become inputs, and every output wired into an End node
+   * becomes an output.
+   */
+  getInterface(): { inputs: Record<string, PortSchema>; outputs: Record<string, PortSchema> } {
+    const inputs: Record<string, PortSchema> = {};
+    for (const start of this.getStartNodes()) {
+      for (const key of Object.keys(start.data.outputs || {})) inputs[key] = start.getOutputSchema(key);
+    }
+
+    const outputs: Record<string, PortSchema> = {};
+    for (const edge of this.edges) {
+      const sourceNode = this.findNode(edge.source);
+      if (!sourceNode || !this.findNode(edge.target)?.isEndNode()) continue;
+      const outputKey = edge.sourceHandle || Object.keys(sourceNode.data.outputs || {})[0];
+      if (!outputKey) continue;
+      // Two branches may end with outputs of the same name; keep both apart.
+      const key = outputKey in outputs ? `${sourceNode.id}_${outputKey}` : outputKey;
+      outputs[key] = sourceNode.getOutputSchema(outputKey);
+    }
+    return { inputs, outputs };
+  }
+
+  /** Ids of the workflows embedded by this workflow's subworkflow nodes. */
+  getSubworkflowIds(): string[] {
+    const ids = this.nodes
+      .filter(node => node.type === 'subworkflow')
+      .map(node => node.getConfig<SubworkflowNodeConfig>()?.workflowId)
+      .filter((id): id is string => !!id);
+    return [...new Set(ids)];
+  }
+
+  /** Whether this workflow embeds `workflowId`, directly or through nested subworkflows. */
+  embedsWorkflow(workflowId: string, library: Workflow[]): boolean {
+    const visited = new Set<string>();
+    const pending = this.getSubworkflowIds();
+    while (pending.length > 0) {
+      const id = pending.shift()!;
+      if (id === workflowId) return true;
+      if (visited.has(id)) continue;
+      visited.add(id);
+      pending.push(...(library.find(w => w.id === id)?.getSubworkflowIds() || []));
+    }
+    return false;
+  }
+
+  /**
+   * Re-derives the ports of every subworkflow node from the workflow it embeds,
+   * keeping the values of inputs that still exist. Returns the same instance
+   * when nothing changed.
+   */
+  syncSubworkflowPorts(library: Workflow[]): Workflow {
+    return this.nodes.reduce<Workflow>((updated, node) => {
+      const child = node.type === 'subworkflow'
+        ? library.find(w => w.id === node.getConfig<SubworkflowNodeConfig>()?.workflowId)
+        : undefined;
+      if (!child) return updated;
+
+      const { inputs, outputs } = child.getInterface();
+      const data = {
+        inputs: mapValues(inputs, (_schema, key) => node.data.inputs?.[key] ?? ''),
+        inputSchemas: inputs,
+        outputs: mapValues(outputs, compactSchema),
+      };
+      const current = { inputs: node.data.inputs, inputSchemas: node.data.inputSchemas, outputs: node.data.outputs };
+      return JSON.stringify(current) === JSON.stringify(data)
+        ? updated
+        : updated.updateNode(node.id, node.updateData(data));
+    }, this);
+  }
+
+  /**
+   * Checks the graph for structural problems (missing Start/End, unreachable
+   * nodes, dangling edges, unsanctioned cycles, invalid edge configs,
+   * edge conditions and port bindings). With the `library` of saved workflows,
+   * subworkflow nodes that embed a missing workflow are reported too.
+   */
+  validate(library?: Workflow[]): WorkflowDiagnostic[] {
+    return validateWorkflow(this, library);
+  }
+
+  hasBlockingErrors(library?: Workflow[]): boolean {
+    return this.validate(library).some(diagnostic => diagnostic.severity === 'error');
+  }
   toExportObject(): any {
     // This function now correctly serializes class instances to plain objects for JSON
     return JSON.parse(JSON.stringify({
+      formatVersion: CURRENT_FORMAT_VERSION,
       id: this.id,
       name: this.name,
       description: this.description,
       nodes: this.nodes,
       edges: this.edges,
+      annotations: this.annotations,
       createdAt: this.createdAt.toISOString(),
       updatedAt: this.updatedAt.toISOString(),
     }));
   }
 
-  toBackendExportObject(): any {
+  /**
+   * Converts the workflow to the runtime's graph format; annotations are left
+   * out since the runtime has no use for them. Workflows embedded by
+   * subworkflow nodes are looked up in `library` and emitted once each, however
+   * deeply nested, as named `subgraphs` keyed by workflow id.
+   */
+  toBackendExportObject(library: Workflow[] = []): BackendWorkflow {
     const backendNodes = this.nodes
       .filter(node => !node.isStartNode() && !node.isEndNode())
       .map(node => {
-        const transformedInputs = { ...node.data.inputs };
-        this.edges.forEach(edge => {
-          if (edge.target === node.id) {
-            const sourceNode = this.findNode(edge.source);
-            if (sourceNode) {
-              const outputKey = Object.keys(sourceNode.data.outputs || {})[0];
-              if (outputKey) {
-                const inputToFill = Object.keys(transformedInputs).find(key => !transformedInputs[key]);
-                if (inputToFill) {
-                  transformedInputs[inputToFill] = `$${sourceNode.id}.${outputKey}`;
-                }
-              }
-            }
-          }
-        });
-        return {
+        const transformedInputs = redactCredentials({ ...node.data.inputs, ...this.getInputBindings(node) });
+        const backendNode: BackendNode = {
           id: node.id,
           type: node.type,
           label: node.data.label,
           inputs: transformedInputs,
           outputs: node.data.outputs || {},
+          input_schema: portsToJsonSchema(Object.keys(node.data.inputs || {}), key => node.getInputSchema(key)),
+          output_schema: portsToJsonSchema(Object.keys(node.data.outputs || {}), key => node.getOutputSchema(key)),
         };
+        const policy = node.getConfig();
+        if (policy instanceof BaseNodeConfig) {
+          backendNode.policy = {
+            retries: policy.retries,
+            retry_delay_ms: policy.retryDelay,
+            backoff_multiplier: policy.backoffMultiplier,
+            ...(policy.timeout > 0 ? { timeout_ms: policy.timeout } : {}),
+            on_error: policy.onError,
+            ...(policy.onError === 'fallback' ? { fallback: policy.getFallbackValue() } : {}),
+          };
+        }
+        return getNodeTypeDefinition(node.type)?.toBackend?.(node, backendNode) ?? backendNode;
       });
 
-    const edgeGroups = new Map<string, { conditional: WorkflowEdge[], default: WorkflowEdge[] }>();
+    const edgeGroups = new Map<string, {
+      conditional: WorkflowEdge[], parallel: WorkflowEdge[], looping: WorkflowEdge[], error: WorkflowEdge[], default: WorkflowEdge[]
+    }>();
     for (const edge of this.edges) {
       if (!edgeGroups.has(edge.source)) {
-        edgeGroups.set(edge.source, { conditional: [], default: [] });
+        edgeGroups.set(edge.source, { conditional: [], parallel: [], looping: [], error: [], default: [] });
       }
       const group = edgeGroups.get(edge.source)!;
-      if (edge.isConditional()) {
+      if (edge.isError()) {
+        group.error.push(edge);
+      } else if (edge.isConditional()) {
         group.conditional.push(edge);
+      } else if (edge.isLooping()) {
+        group.looping.push(edge);
+      } else if (edge.isParallel()) {
+        group.parallel.push(edge);
       } else {
         group.default.push(edge);
       }
     }
 
-    const backendEdges: any[] = [];
+    const toBackendId = (nodeId: string) => (this.findNode(nodeId)?.isEndNode() ? BACKEND_END : nodeId);
+
+    // A fan-out is exported with its branches and the join the runtime must wait on.
+    const parallelTargets = (sourceId: string, edges: WorkflowEdge[]): BackendParallelTargets => {
+      const joinConfig = edges[0].getConfig<ParallelEdgeConfig>() || new ParallelEdgeConfig();
+      const joinNode = this.findJoinNode(sourceId);
+      return {
+        branches: edges.map(edge => ({
+          node: toBackendId(edge.target),
+          timeout_ms: edge.getConfig<ParallelEdgeConfig>()?.timeout ?? joinConfig.timeout,
+        })),
+        join: {
+          node: joinNode ? toBackendId(joinNode.id) : BACKEND_END,
+          mode: joinConfig.joinMode === 'firstN' ? 'first_n' : joinConfig.joinMode,
+          ...(joinConfig.joinMode === 'firstN' ? { count: joinConfig.joinCount } : {}),
+        },
+      };
+    };
+
+    const backendEdges: BackendEdge[] = [];
     const startNode = this.getStartNodes()[0];
 
     if (startNode && edgeGroups.has(startNode.id)) {
       const startEdges = edgeGroups.get(startNode.id)!;
       const targetNodes = startEdges.default.map(e => e.target);
-      if (targetNodes.length > 0) {
-        backendEdges.push({ from: '__start__', to: { nodes: targetNodes } });
+      const to: BackendEdgeTargets = {};
+      if (targetNodes.length > 0) to.nodes = targetNodes;
+      if (startEdges.parallel.length > 0) to.parallel = parallelTargets(startNode.id, startEdges.parallel);
+      if (Object.keys(to).length > 0) {
+        backendEdges.push({ from: '__start__', to });
       }
       edgeGroups.delete(startNode.id);
     }
@@ -227,7 +685,7 @@ export class Workflow {
       const fromNode = this.findNode(sourceId);
       if (!fromNode || fromNode.isStartNode()) continue;
 
-      const to: { conditional_edges?: any[], nodes?: string[], default?: string } = {};
+      const to: BackendEdgeTargets = {};
 
       const conditionalEdges = group.conditional.map(edge => {
         const config = edge.getConfig<ConditionalEdgeConfig>();
@@ -251,17 +709,69 @@ export class Workflow {
         to.nodes = defaultTargets;
       }
 
+      if (group.parallel.length > 0) {
+        to.parallel = parallelTargets(sourceId, group.parallel);
+      }
+
+      if (group.error.length > 0) {
+        to.on_error = group.error.map(edge => toBackendId(edge.target));
+      }
+
+      if (group.looping.length > 0) {
+        to.loops = group.looping.map(edge => {
+          const config = edge.getConfig<LoopingEdgeConfig>() || new LoopingEdgeConfig();
+          return {
+            node: toBackendId(edge.target),
+            max_iterations: config.maxIterations,
+            ...(config.breakCondition.trim() ? { break_condition: config.breakCondition } : {}),
+            retry_delay_ms: config.retryDelay,
+            backoff_multiplier: config.backoffMultiplier,
+          };
+        });
+      }
+
       if (Object.keys(to).length > 0) {
         backendEdges.push({ from: sourceId, to });
       }
     }
 
+    const subgraphs: Record<string, BackendWorkflow> = {};
+    const pending = this.getSubworkflowIds();
+    while (pending.length > 0) {
+      const workflowId = pending.shift()!;
+      const child = library.find(w => w.id === workflowId);
+      if (!child || subgraphs[workflowId] || workflowId === this.id) continue;
+      subgraphs[workflowId] = child.toBackendExportObject();
+      pending.push(...child.getSubworkflowIds());
+    }
+
     return {
       version: '1.0',
       name: this.name,
       description: this.description,
       nodes: backendNodes,
       edges: backendEdges,
+      ...(Object.keys(subgraphs).length > 0 ? { subgraphs } : {}),
     };
   }
+
+  /** Generates a standalone Python module that runs this workflow with LangGraph. */
+  toLangGraphCode(): string {
+    return generateLangGraphCode(this);
+  }
+
+  /** The editor file format as YAML, for workflows kept under version control. */
+  toYaml(): string {
+    return workflowToYaml(this);
+  }
+
+  /** Renders the workflow as Mermaid flowchart text. */
+  toMermaid(): string {
+    return toMermaid(this);
+  }
+
+  /** Renders the workflow as a Graphviz DOT digraph. */
+  toDot(): string {
+    return toDot(this);
+  }
 }
\ No newline at end of file
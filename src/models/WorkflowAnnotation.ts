@@ -0,0 +1,121 @@
+// src/models/WorkflowAnnotation.ts
+
+// Canvas annotations: sticky notes and group frames. They explain a workflow to
+// the people reading it and never run, so they are kept apart from the nodes
+// and left out of the backend export.
+
+import type { Workflow } from './Workflow';
+import { DEFAULT_LAYOUT_OPTIONS } from './WorkflowLayout';
+
+export type AnnotationType = 'note' | 'group';
+
+export const ANNOTATION_TYPES: AnnotationType[] = ['note', 'group'];
+
+// Swatches offered by the editor. Any CSS hex colour is accepted on import.
+export const ANNOTATION_COLORS = ['#FEF08A', '#BBF7D0', '#BFDBFE', '#FBCFE8', '#DDD6FE', '#E5E7EB'];
+
+export interface AnnotationData {
+  // Markdown body of a sticky note.
+  text?: string;
+  // Heading of a group frame.
+  title?: string;
+  color: string;
+}
+
+export interface AnnotationSize {
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_ANNOTATION_SIZES: Record<AnnotationType, AnnotationSize> = {
+  note: { width: 220, height: 160 },
+  group: { width: 480, height: 320 },
+};
+
+export class WorkflowAnnotation {
+  id: string;
+  type: AnnotationType;
+  position: { x: number; y: number };
+  size: AnnotationSize;
+  data: AnnotationData;
+
+  constructor(
+    id: string,
+    type: AnnotationType,
+    position: { x: number; y: number },
+    size: AnnotationSize = DEFAULT_ANNOTATION_SIZES[type],
+    data: AnnotationData = { color: ANNOTATION_COLORS[0] }
+  ) {
+    this.id = id;
+    this.type = type;
+    this.position = position;
+    this.size = size;
+    this.data = data;
+  }
+
+  isGroup(): boolean { return this.type === 'group'; }
+
+  /** Whether a point lies within the annotation's bounds. */
+  contains(point: { x: number; y: number }): boolean {
+    return point.x >= this.position.x && point.x <= this.position.x + this.size.width
+      && point.y >= this.position.y && point.y <= this.position.y + this.size.height;
+  }
+
+  updateData(newData: Partial<AnnotationData>): WorkflowAnnotation {
+    return new WorkflowAnnotation(this.id, this.type, this.position, this.size, { ...this.data, ...newData });
+  }
+
+  updatePosition(newPosition: { x: number; y: number }): WorkflowAnnotation {
+    return new WorkflowAnnotation(this.id, this.type, newPosition, this.size, this.data);
+  }
+
+  updateSize(newSize: AnnotationSize): WorkflowAnnotation {
+    return new WorkflowAnnotation(this.id, this.type, this.position, newSize, this.data);
+  }
+}
+
+/**
+ * The nodes and annotations inside a group frame. Membership is purely visual:
+ * whatever has its centre within the frame belongs to it, so dropping a node
+ * into a frame or dragging it out is all it takes to join or leave a group.
+ */
+export function getGroupMembers(workflow: Workflow, groupId: string): { nodeIds: string[]; annotationIds: string[] } {
+  const group = workflow.findAnnotation(groupId);
+  if (!group?.isGroup()) return { nodeIds: [], annotationIds: [] };
+
+  // Nodes have no stored size; the layout's footprint matches how they render.
+  const { nodeWidth, nodeHeight } = DEFAULT_LAYOUT_OPTIONS;
+  return {
+    nodeIds: workflow.nodes
+      .filter(node => group.contains({ x: node.position.x + nodeWidth / 2, y: node.position.y + nodeHeight / 2 }))
+      .map(node => node.id),
+    annotationIds: workflow.annotations
+      .filter(annotation => annotation.id !== groupId && group.contains({
+        x: annotation.position.x + annotation.size.width / 2,
+        y: annotation.position.y + annotation.size.height / 2,
+      }))
+      .map(annotation => annotation.id),
+  };
+}
+
+/** Moves an annotation; a group frame takes its members along by the same offset. */
+export function moveAnnotation(workflow: Workflow, annotationId: string, position: { x: number; y: number }): Workflow {
+  const annotation = workflow.findAnnotation(annotationId);
+  if (!annotation) return workflow;
+
+  const dx = position.x - annotation.position.x;
+  const dy = position.y - annotation.position.y;
+  const shift = (point: { x: number; y: number }) => ({ x: point.x + dx, y: point.y + dy });
+  const { nodeIds, annotationIds } = getGroupMembers(workflow, annotationId);
+
+  const moved = nodeIds.reduce(
+    (updated, id) => updated.updateNode(id, updated.findNode(id)!.updatePosition(shift(updated.findNode(id)!.position))),
+    workflow
+  );
+  return [annotationId, ...annotationIds].reduce(
+    (updated, id) => updated.updateAnnotation(id, updated.findAnnotation(id)!.updatePosition(
+      id === annotationId ? position : shift(updated.findAnnotation(id)!.position)
+    )),
+    moved
+  );
+}
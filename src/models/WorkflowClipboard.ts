@@ -0,0 +1,90 @@
+// src/models/WorkflowClipboard.ts
+
+// Copying and pasting parts of a workflow. A copied selection is itself a small
+// workflow in the editor file format, so it can travel through the system
+// clipboard as JSON and be pasted into any workflow, including another one.
+
+import { Workflow } from './Workflow';
+import { RawWorkflowData } from './WorkflowMigrations';
+import { generateId } from './WorkflowIds';
+import { BINDING_REFERENCE } from './BackendFormat';
+
+// How far pasted nodes are moved from the originals, so both stay visible.
+export const PASTE_OFFSET = { x: 40, y: 40 };
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Rewrites references to the copied nodes in a condition expression, written as
+// `$nodeId.output` or a bare `nodeId.output`. Generated ids start with a digit,
+// so the copies are always referenced as `$id`.
+const remapCondition = (condition: string, nodeIds: Map<string, string>) => {
+  const ids = [...nodeIds.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![A-Za-z0-9_$.-])\\$?(${ids.join('|')})\\.(?=[A-Za-z0-9_])`, 'g');
+  return condition.replace(pattern, (_, id: string) => `$${nodeIds.get(id)}.`);
+};
+
+// Re-points inputs bound to a copied node's output (`$nodeId.key`); other text is left alone.
+const remapBindings = (inputs: Record<string, unknown>, nodeIds: Map<string, string>) =>
+  Object.fromEntries(Object.entries(inputs).map(([key, value]) => {
+    const match = typeof value === 'string' ? BINDING_REFERENCE.exec(value) : null;
+    return [key, match && nodeIds.has(match[1]) ? `$${nodeIds.get(match[1])}.${match[2]}` : value];
+  }));
+
+/** The given nodes and the edges between them, as a workflow of their own. */
+export function extractNodes(workflow: Workflow, nodeIds: string[]): Workflow {
+  const nodes = workflow.nodes.filter(node => nodeIds.includes(node.id));
+  const edges = workflow.edges.filter(edge => nodeIds.includes(edge.source) && nodeIds.includes(edge.target));
+  return new Workflow(workflow.id, workflow.name, nodes, edges, workflow.createdAt, workflow.updatedAt);
+}
+
+/**
+ * Adds copies of the fragment's nodes and edges to `target` under fresh ids.
+ * References between copied nodes are re-pointed at the copies; references to
+ * anything else are kept. Start and end nodes are skipped when `target`
+ * already has one, along with their edges. Returns the ids of the new nodes.
+ */
+export function pasteNodes(
+  target: Workflow, fragment: Workflow, offset = PASTE_OFFSET
+): { workflow: Workflow; nodeIds: string[] } {
+  const data: RawWorkflowData = fragment.toExportObject();
+  const skipped = (data.nodes || [])
+    .filter(node => (node.type === 'start' || node.type === 'end') && target.nodes.some(n => n.type === node.type))
+    .map(node => node.id);
+
+  const nodes = (data.nodes || []).filter(node => !skipped.includes(node.id));
+  const nodeIds = new Map(nodes.map(node => [node.id, generateId()]));
+  const edges = (data.edges || []).filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target));
+
+  const copiedNodes = nodes.map(node => {
+    const position = node.position as { x: number; y: number };
+    return {
+      ...node,
+      id: nodeIds.get(node.id),
+      position: { x: position.x + offset.x, y: position.y + offset.y },
+      data: node.data?.inputs ? { ...node.data, inputs: remapBindings(node.data.inputs, nodeIds) } : node.data,
+    };
+  });
+  const copiedEdges = edges.map(edge => {
+    const original = (edge.data || {}) as { config?: Record<string, unknown> };
+    const config = original.config && { ...original.config };
+    for (const key of ['condition', 'breakCondition']) {
+      if (typeof config?.[key] === 'string') config[key] = remapCondition(config[key] as string, nodeIds);
+    }
+    // A join outside the copy belongs to the original fan-out; let the copy detect its own.
+    if (typeof config?.joinNodeId === 'string') {
+      config.joinNodeId = nodeIds.get(config.joinNodeId) || '';
+    }
+    const edgeData = config ? { ...original, config } : original;
+    return { ...edge, id: generateId(), source: nodeIds.get(edge.source), target: nodeIds.get(edge.target), data: edgeData };
+  });
+
+  // Re-hydrating through the import path gives the copies their own config instances.
+  const copy = Workflow.fromImportData({ ...data, nodes: copiedNodes, edges: copiedEdges });
+  return {
+    workflow: new Workflow(
+      target.id, target.name, [...target.nodes, ...copy.nodes], [...target.edges, ...copy.edges],
+      target.createdAt, new Date(), target.description, target.annotations
+    ),
+    nodeIds: copy.nodes.map(node => node.id),
+  };
+}
@@ -0,0 +1,152 @@
+// src/models/WorkflowDiff.ts
+
+// Structural comparison of two versions of a workflow for the history panel:
+// the nodes and edges that were added, removed or changed, and for changed ones
+// every field that differs. Multi-line text such as prompts gets a line diff.
+
+import type { Workflow } from './Workflow';
+import { WorkflowNode } from './WorkflowNode';
+import { WorkflowEdge } from './WorkflowEdge';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  // Dotted path within the node or edge, e.g. `inputs.system_prompt`.
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ElementChange {
+  id: string;
+  kind: ChangeKind;
+  label: string;
+  // Empty for added and removed elements.
+  fields: FieldChange[];
+}
+
+export interface WorkflowDiff {
+  nodes: ElementChange[];
+  edges: ElementChange[];
+}
+
+export interface LineChange {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Class instances (node and edge configs) compare by their serialized fields.
+const plain = (value: unknown): Record<string, unknown> =>
+  value ? JSON.parse(JSON.stringify(value)) : {};
+
+const prefixed = (prefix: string, record: Record<string, unknown> | undefined) =>
+  Object.fromEntries(Object.entries(record || {}).map(([key, value]) => [`${prefix}.${key}`, value]));
+
+const nodeFields = (node: WorkflowNode): Record<string, unknown> => ({
+  type: node.type,
+  label: node.data.label,
+  description: node.data.description,
+  position: node.position,
+  ...prefixed('inputs', node.data.inputs),
+  ...prefixed('inputSchemas', node.data.inputSchemas),
+  ...prefixed('outputs', node.data.outputs),
+  ...prefixed('config', plain(node.data.config)),
+});
+
+const edgeFields = (edge: WorkflowEdge): Record<string, unknown> => ({
+  type: edge.type,
+  source: edge.source,
+  target: edge.target,
+  sourceHandle: edge.sourceHandle,
+  targetHandle: edge.targetHandle,
+  label: edge.data.label,
+  ...prefixed('config', plain(edge.data.config)),
+});
+
+function compareFields(before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+  const paths = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return paths
+    .filter(path => JSON.stringify(before[path]) !== JSON.stringify(after[path]))
+    .map(path => ({ path, before: before[path], after: after[path] }));
+}
+
+function compareElements<T extends { id: string }>(
+  before: T[], after: T[], fieldsOf: (element: T) => Record<string, unknown>, labelOf: (element: T) => string
+): ElementChange[] {
+  const changes: ElementChange[] = [];
+  for (const element of after) {
+    const previous = before.find(e => e.id === element.id);
+    if (!previous) {
+      changes.push({ id: element.id, kind: 'added', label: labelOf(element), fields: [] });
+      continue;
+    }
+    const fields = compareFields(fieldsOf(previous), fieldsOf(element));
+    if (fields.length > 0) changes.push({ id: element.id, kind: 'changed', label: labelOf(element), fields });
+  }
+  for (const element of before) {
+    if (!after.some(e => e.id === element.id)) {
+      changes.push({ id: element.id, kind: 'removed', label: labelOf(element), fields: [] });
+    }
+  }
+  return changes;
+}
+
+// Both arguments are immutable, so each pair is only compared once.
+const diffCache = new WeakMap<Workflow, WeakMap<Workflow, WorkflowDiff>>();
+
+/** Lists what changed going from `before` to `after`. Elements are matched by id. */
+export function diffWorkflows(before: Workflow, after: Workflow): WorkflowDiff {
+  const cached = diffCache.get(before)?.get(after);
+  if (cached) return cached;
+
+  // Edges are named after their endpoints, looked up in whichever version has them.
+  const nodeLabel = (id: string) =>
+    (after.findNode(id) || before.findNode(id))?.data.label || id;
+
+  const diff: WorkflowDiff = {
+    nodes: compareElements(before.nodes, after.nodes, nodeFields, node => node.data.label || node.id),
+    edges: compareElements(
+      before.edges, after.edges, edgeFields, edge => `${nodeLabel(edge.source)} → ${nodeLabel(edge.target)}`
+    ),
+  };
+  if (!diffCache.has(before)) diffCache.set(before, new WeakMap());
+  diffCache.get(before)!.set(after, diff);
+  return diff;
+}
+
+/** Whether a field change reads better as a line diff than as "before → after". */
+export const isTextChange = (change: FieldChange) =>
+  typeof change.before === 'string' && typeof change.after === 'string'
+  && (change.before.includes('\n') || change.after.includes('\n'));
+
+/** Line diff of two texts, based on their longest common subsequence of lines. */
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // common[i][j] is the length of the longest common subsequence of a[i..] and b[j..].
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ kind: 'removed', text: a[i++] });
+    } else {
+      lines.push({ kind: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ kind: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ kind: 'added', text: b[j++] });
+  return lines;
+}
@@ -1,4 +1,6 @@
-export type EdgeType = 'default' | 'conditional' | 'parallel' | 'looping';
+export type EdgeType = 'default' | 'conditional' | 'parallel' | 'looping' | 'error';
+
+export const EDGE_TYPES: EdgeType[] = ['default', 'conditional', 'parallel', 'looping', 'error'];
 
 export interface EdgeData extends Record<string, unknown> {
   label?: string;
@@ -34,10 +36,23 @@ export class ConditionalEdgeConfig extends BaseEdgeConfig {
   }
 }
 
+// How a parallel fan-out reconverges: wait for every branch, the first one,
+// or the first N to finish.
+export type JoinMode = 'all' | 'any' | 'firstN';
+
+export const JOIN_MODES: JoinMode[] = ['all', 'any', 'firstN'];
+
 // Parallel Edge Configuration
+// All parallel edges leaving a node form one fan-out, one edge per branch. The
+// join settings belong to the fan-out as a whole and are kept identical on
+// every edge of it; the timeout applies to each branch on its own.
 export class ParallelEdgeConfig extends BaseEdgeConfig {
-  branches: string[] = [];
-  waitForAll: boolean = true;
+  // Node where the branches reconverge. Empty means it is detected from the graph.
+  joinNodeId: string = '';
+  joinMode: JoinMode = 'all';
+  // Number of branches to wait for when `joinMode` is 'firstN'.
+  joinCount: number = 2;
+  // Branch timeout in milliseconds.
   timeout: number = 30000;
   description: string = '';
 
@@ -53,7 +68,14 @@ export class ParallelEdgeConfig extends BaseEdgeConfig {
   }
 
   validate(): boolean {
-    return this.branches.length > 1 && this.timeout > 0;
+    return this.timeout > 0 && (this.joinMode !== 'firstN' || this.joinCount >= 1);
+  }
+
+  /** Whether two edges of the same fan-out agree on how it joins. */
+  hasSameJoin(other: ParallelEdgeConfig): boolean {
+    return this.joinNodeId === other.joinNodeId
+      && this.joinMode === other.joinMode
+      && (this.joinMode !== 'firstN' || this.joinCount === other.joinCount);
   }
 }
 
@@ -77,7 +99,21 @@ export class LoopingEdgeConfig extends BaseEdgeConfig {
   }
 
   validate(): boolean {
-    return this.maxIterations > 0 && this.retryDelay >= 0;
+    return this.maxIterations > 0 && this.retryDelay >= 0 && this.backoffMultiplier >= 1;
+  }
+}
+
+/** A default config for the edge type, or undefined for types without one ('default' and 'error'). */
+export function createEdgeConfig(type: EdgeType): BaseEdgeConfig | undefined {
+  switch (type) {
+    case 'conditional':
+      return new ConditionalEdgeConfig();
+    case 'parallel':
+      return new ParallelEdgeConfig();
+    case 'looping':
+      return new LoopingEdgeConfig();
+    default:
+      return undefined;
   }
 }
 
@@ -102,6 +138,10 @@ export class WorkflowEdge {
   data: EdgeData;
   animated?: boolean;
   style?: Record<string, any>;
+  // The source node's output key and the target node's input key this edge binds.
+  // Edges without a target handle only carry control flow (e.g. into the End node).
+  sourceHandle?: string;
+  targetHandle?: string;
 
   constructor(
     id: string,
@@ -110,7 +150,9 @@ export class WorkflowEdge {
     type: EdgeType,
     data: EdgeData,
     animated?: boolean,
-    style?: Record<string, any>
+    style?: Record<string, any>,
+    sourceHandle?: string,
+    targetHandle?: string
   ) {
     this.id = id;
     this.source = source;
@@ -119,6 +161,8 @@ export class WorkflowEdge {
     this.data = data;
     this.animated = animated;
     this.style = style;
+    this.sourceHandle = sourceHandle;
+    this.targetHandle = targetHandle;
   }
   
   // Method to update edge data
@@ -126,7 +170,7 @@ export class WorkflowEdge {
     const updatedData = { ...this.data, ...newData };
     return new WorkflowEdge(
       this.id, this.source, this.target, this.type,
-      updatedData, this.animated, this.style
+      updatedData, this.animated, this.style, this.sourceHandle, this.targetHandle
     );
   }
 
@@ -135,7 +179,7 @@ export class WorkflowEdge {
     const updatedStyle = { ...this.style, ...newStyle };
     return new WorkflowEdge(
       this.id, this.source, this.target, this.type,
-      this.data, this.animated, updatedStyle
+      this.data, this.animated, updatedStyle, this.sourceHandle, this.targetHandle
     );
   }
 
@@ -143,7 +187,7 @@ export class WorkflowEdge {
   setAnimated(animated: boolean): WorkflowEdge {
     return new WorkflowEdge(
       this.id, this.source, this.target, this.type,
-      this.data, animated, this.style
+      this.data, animated, this.style, this.sourceHandle, this.targetHandle
     );
   }
 
@@ -154,6 +198,14 @@ export class WorkflowEdge {
     return this.data.config as T;
   }
 
+  // Method to re-point the edge at specific ports
+  updateHandles(sourceHandle?: string, targetHandle?: string): WorkflowEdge {
+    return new WorkflowEdge(
+      this.id, this.source, this.target, this.type,
+      this.data, this.animated, this.style, sourceHandle, targetHandle
+    );
+  }
+
   // Method to check if edge is conditional
   isConditional(): boolean {
     return this.type === 'conditional';
@@ -169,6 +221,11 @@ export class WorkflowEdge {
     return this.type === 'looping';
   }
 
+  // Error edges are only followed when the source node fails and routes its errors
+  isError(): boolean {
+    return this.type === 'error';
+  }
+
   // Method to create a copy of the edge
   clone(): WorkflowEdge {
     // Deep copy of data and style to ensure immutability
@@ -177,7 +234,7 @@ export class WorkflowEdge {
 
     return new WorkflowEdge(
       this.id, this.source, this.target, this.type,
-      dataClone, this.animated, styleClone
+      dataClone, this.animated, styleClone, this.sourceHandle, this.targetHandle
     );
   }
 }
\ No newline at end of file
@@ -0,0 +1,4 @@
+// src/models/WorkflowIds.ts
+
+/** A fresh id for a workflow, node, edge or annotation, shaped `<timestamp>-<random>`. */
+export const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
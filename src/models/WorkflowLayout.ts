@@ -0,0 +1,282 @@
+// src/models/WorkflowLayout.ts
+
+import type { Workflow } from './Workflow';
+
+export interface LayoutOptions {
+  nodeWidth: number;
+  nodeHeight: number;
+  horizontalGap: number;
+  verticalGap: number;
+}
+
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
+  nodeWidth: 180,
+  nodeHeight: 80,
+  horizontalGap: 60,
+  verticalGap: 80,
+};
+
+// Rounds of barycenter sweeps when ordering layers, and of alignment when placing them.
+const ORDERING_SWEEPS = 8;
+const ALIGNMENT_PASSES = 4;
+
+// Long edges are routed through a virtual node in every layer they cross.
+const VIRTUAL_PREFIX = '~';
+const isVirtual = (id: string) => id.startsWith(VIRTUAL_PREFIX);
+
+/**
+ * Computes a layered (Sugiyama-style) top-to-bottom layout, matching nodes
+ * that take inputs on top and emit outputs at the bottom:
+ *
+ *   1. Back edges (looping edges and any edge closing a cycle) are set aside,
+ *      so loops do not push nodes down indefinitely.
+ *   2. Each node sits one layer below the deepest node feeding it. The targets
+ *      of a parallel fan-out share a layer so the branches run side by side,
+ *      and end nodes sit on the bottom layer.
+ *   3. Layers are ordered to reduce edge crossings. Back edges count here too,
+ *      which keeps a loop body in line with the node it returns to.
+ *   4. Nodes are moved towards the nodes they connect to, without overlapping,
+ *      and the whole graph is centred on x = 0.
+ */
+export function computeLayeredPositions(
+  workflow: Workflow,
+  options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS
+): Map<string, { x: number; y: number }> {
+  const nodeIds = workflow.nodes.map(node => node.id);
+  const forward = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  for (const edge of workflow.edges) {
+    if (!edge.isLooping() && forward.has(edge.source) && forward.has(edge.target)) {
+      forward.get(edge.source)!.push(edge.target);
+    }
+  }
+
+  // Drop the edges that close a cycle, found by depth-first search from the roots.
+  // The visiting order doubles as the initial order within each layer.
+  const roots = [
+    ...workflow.getStartNodes().map(node => node.id),
+    ...nodeIds.filter(id => ![...forward.values()].some(targets => targets.includes(id))),
+    ...nodeIds,
+  ];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visitOrder = new Map<string, number>();
+  const acyclic = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  const visit = (nodeId: string) => {
+    state.set(nodeId, 'visiting');
+    visitOrder.set(nodeId, visitOrder.size);
+    for (const next of forward.get(nodeId)!) {
+      if (state.get(next) === 'visiting') continue;
+      acyclic.get(nodeId)!.push(next);
+      if (!state.has(next)) visit(next);
+    }
+    state.set(nodeId, 'done');
+  };
+  for (const root of roots) {
+    if (!state.has(root)) visit(root);
+  }
+
+  // Longest-path layering over the acyclic graph.
+  const layerOf = new Map<string, number>();
+  const assignLayer = (nodeId: string): number => {
+    if (layerOf.has(nodeId)) return layerOf.get(nodeId)!;
+    const parents = nodeIds.filter(id => acyclic.get(id)!.includes(nodeId));
+    const layer = parents.length === 0 ? 0 : Math.max(...parents.map(assignLayer)) + 1;
+    layerOf.set(nodeId, layer);
+    return layer;
+  };
+  nodeIds.forEach(assignLayer);
+
+  // Pull the branches of each fan-out down to a common layer, then push their
+  // descendants down again. Bounded, since a branch feeding a sibling can never agree.
+  const branchGroups = nodeIds
+    .map(id => workflow.getParallelBranches(id).map(edge => edge.target).filter(target => layerOf.has(target)))
+    .filter(group => group.length > 1);
+  for (let pass = 0; pass < nodeIds.length && branchGroups.length > 0; pass++) {
+    let changed = false;
+    const raise = (nodeId: string, layer: number) => {
+      if (layerOf.get(nodeId)! < layer) {
+        layerOf.set(nodeId, layer);
+        changed = true;
+      }
+    };
+    for (const group of branchGroups) {
+      const layer = Math.max(...group.map(id => layerOf.get(id)!));
+      group.forEach(id => raise(id, layer));
+    }
+    for (const [source, targets] of acyclic) {
+      targets.forEach(target => raise(target, layerOf.get(source)! + 1));
+    }
+    if (!changed) break;
+  }
+
+  // End nodes always sit on the bottom layer.
+  const maxLayer = Math.max(0, ...layerOf.values());
+  for (const node of workflow.nodes) {
+    if (node.isEndNode()) layerOf.set(node.id, maxLayer);
+  }
+
+  // Every edge, back edges included, as links between adjacent layers.
+  const layers: string[][] = Array.from({ length: maxLayer + 1 }, () => []);
+  const links: [string, string][] = [];
+  [...nodeIds].sort((a, b) => visitOrder.get(a)! - visitOrder.get(b)!).forEach(id => layers[layerOf.get(id)!].push(id));
+  for (const edge of workflow.edges) {
+    if (!layerOf.has(edge.source) || !layerOf.has(edge.target)) continue;
+    const [upper, lower] = layerOf.get(edge.source)! <= layerOf.get(edge.target)!
+      ? [edge.source, edge.target]
+      : [edge.target, edge.source];
+    const [top, bottom] = [layerOf.get(upper)!, layerOf.get(lower)!];
+    if (top === bottom) continue;
+
+    let previous = upper;
+    for (let layer = top + 1; layer < bottom; layer++) {
+      const virtualId = `${VIRTUAL_PREFIX}${edge.id}:${layer}`;
+      layers[layer].push(virtualId);
+      links.push([previous, virtualId]);
+      previous = virtualId;
+    }
+    links.push([previous, lower]);
+  }
+
+  const ordered = orderLayers(layers, links);
+  return placeLayers(ordered, links, options);
+}
+
+// Number of crossings between the links joining two adjacent layers.
+function countCrossings(upper: string[], lower: string[], links: [string, string][]): number {
+  const between = links
+    .filter(([a, b]) => upper.includes(a) && lower.includes(b))
+    .map(([a, b]) => [upper.indexOf(a), lower.indexOf(b)]);
+  let crossings = 0;
+  for (let i = 0; i < between.length; i++) {
+    for (let j = i + 1; j < between.length; j++) {
+      const [a1, b1] = between[i];
+      const [a2, b2] = between[j];
+      if ((a1 - a2) * (b1 - b2) < 0) crossings++;
+    }
+  }
+  return crossings;
+}
+
+const totalCrossings = (layers: string[][], links: [string, string][]) =>
+  layers.slice(1).reduce((sum, layer, index) => sum + countCrossings(layers[index], layer, links), 0);
+
+// Barycenter heuristic: alternately sort each layer by the mean position of its
+// neighbours in the layer above, then below, keeping the best order seen.
+function orderLayers(initial: string[][], links: [string, string][]): string[][] {
+  const neighbours = (id: string, above: boolean) =>
+    links.filter(link => link[above ? 1 : 0] === id).map(link => link[above ? 0 : 1]);
+
+  const layers = initial.map(layer => [...layer]);
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = totalCrossings(layers, links);
+
+  const sortLayer = (index: number, reference: string[], above: boolean) => {
+    const layer = layers[index];
+    const key = new Map(layer.map((id, position) => {
+      const positions = neighbours(id, above).map(n => reference.indexOf(n)).filter(p => p >= 0);
+      // Nodes without neighbours on that side keep their place.
+      return [id, positions.length > 0 ? positions.reduce((a, b) => a + b, 0) / positions.length : position];
+    }));
+    layers[index] = [...layer].sort((a, b) => key.get(a)! - key.get(b)!);
+  };
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let i = 1; i < layers.length; i++) sortLayer(i, layers[i - 1], true);
+    } else {
+      for (let i = layers.length - 2; i >= 0; i--) sortLayer(i, layers[i + 1], false);
+    }
+    const crossings = totalCrossings(layers, links);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = layers.map(layer => [...layer]);
+    }
+  }
+  return best;
+}
+
+// Assigns x coordinates: each node moves towards the mean x of its neighbours
+// in the adjacent layer, then the layer is packed left to right without
+// overlaps and shifted back so it stays as close to those targets as it can.
+function placeLayers(
+  layers: string[][], links: [string, string][], options: LayoutOptions
+): Map<string, { x: number; y: number }> {
+  const width = (id: string) => (isVirtual(id) ? 0 : options.nodeWidth);
+  const spacing = (a: string, b: string) =>
+    (width(a) + width(b)) / 2 + (isVirtual(a) || isVirtual(b) ? options.horizontalGap / 2 : options.horizontalGap);
+
+  // Centre x of every node and virtual node.
+  const centre = new Map<string, number>();
+  layers.forEach(layer => {
+    let x = 0;
+    layer.forEach((id, index) => {
+      if (index > 0) x += spacing(layer[index - 1], id);
+      centre.set(id, x);
+    });
+    const shift = x / 2;
+    layer.forEach(id => centre.set(id, centre.get(id)! - shift));
+  });
+
+  const align = (layer: string[], above: boolean) => {
+    const target = layer.map(id => {
+      const xs = links.filter(link => link[above ? 1 : 0] === id).map(link => centre.get(link[above ? 0 : 1])!);
+      return xs.length > 0 ? xs.reduce((a, b) => a + b, 0) / xs.length : centre.get(id)!;
+    });
+    const packed: number[] = [];
+    layer.forEach((id, index) => {
+      packed[index] = index === 0 ? target[0] : Math.max(target[index], packed[index - 1] + spacing(layer[index - 1], id));
+    });
+    const drift = packed.reduce((sum, x, index) => sum + x - target[index], 0) / Math.max(1, layer.length);
+    layer.forEach((id, index) => centre.set(id, packed[index] - drift));
+  };
+
+  for (let pass = 0; pass < ALIGNMENT_PASSES; pass++) {
+    for (let i = 1; i < layers.length; i++) align(layers[i], true);
+    for (let i = layers.length - 2; i >= 0; i--) align(layers[i], false);
+  }
+
+  const realIds = layers.flat().filter(id => !isVirtual(id));
+  const xs = realIds.map(id => centre.get(id)!);
+  const offset = xs.length > 0 ? (Math.min(...xs) + Math.max(...xs)) / 2 : 0;
+
+  const positions = new Map<string, { x: number; y: number }>();
+  layers.forEach((layer, layerIndex) => {
+    layer.filter(id => !isVirtual(id)).forEach(id => {
+      positions.set(id, {
+        x: Math.round(centre.get(id)! - offset - options.nodeWidth / 2),
+        y: layerIndex * (options.nodeHeight + options.verticalGap),
+      });
+    });
+  });
+  return positions;
+}
+
+/**
+ * Lays out only the given nodes, by the edges among them. The arranged group
+ * keeps the top-left corner the selection had, so the rest of the canvas stays put.
+ */
+export function computeSelectionPositions(
+  workflow: Workflow,
+  nodeIds: string[],
+  options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS
+): Map<string, { x: number; y: number }> {
+  const selection = workflow.extractNodes(nodeIds);
+  const positions = computeLayeredPositions(selection, options);
+  if (selection.nodes.length === 0) return positions;
+
+  const corner = (points: { x: number; y: number }[]) => ({
+    x: Math.min(...points.map(p => p.x)),
+    y: Math.min(...points.map(p => p.y)),
+  });
+  const from = corner([...positions.values()]);
+  const to = corner(selection.nodes.map(node => node.position));
+  return new Map([...positions].map(([id, p]) => [id, { x: p.x - from.x + to.x, y: p.y - from.y + to.y }]));
+}
+
+/** Returns a copy of the workflow with every node moved to its layered position. */
+export function layoutWorkflow(workflow: Workflow, options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS): Workflow {
+  const positions = computeLayeredPositions(workflow, options);
+  return workflow.nodes.reduce(
+    (updated, node) => updated.updateNode(node.id, node.updatePosition(positions.get(node.id)!)),
+    workflow
+  );
+}
@@ -0,0 +1,173 @@
+// src/models/WorkflowMerge.ts
+
+// Three-way merge of editor files, for workflows edited on two branches.
+// Nodes, edges and annotations are matched by id and merged field by field: a field changed
+// on one side only takes that change, and a field changed differently on both
+// sides becomes a conflict for the user to settle with `resolveMerge`.
+
+import { Workflow } from './Workflow';
+
+export type MergeSide = 'ours' | 'theirs';
+
+export interface MergeConflict {
+  // Key path into the workflow, e.g. ['nodes', <id>, 'data', 'inputs', 'system_prompt'].
+  path: string[];
+  // Human-readable location, e.g. `Node "Summarize" › inputs.system_prompt`.
+  label: string;
+  // `undefined` where a side does not have the field, or deleted the node or edge.
+  base: unknown;
+  ours: unknown;
+  theirs: unknown;
+}
+
+export interface WorkflowMerge {
+  conflicts: MergeConflict[];
+  // Fields taken from one side without conflict.
+  mergedChanges: number;
+  // The merged file with nodes and edges keyed by id. Conflicts hold our value until resolved.
+  merged: Record<string, unknown>;
+  nodeOrder: string[];
+  edgeOrder: string[];
+  annotationOrder: string[];
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Nodes, edges and annotations are merged as maps so that they match by id rather than position.
+const byId = (elements: unknown) =>
+  Object.fromEntries(((elements || []) as Json[]).map(element => [element.id as string, element]));
+
+// Ours first, then whatever only theirs has, each in file order.
+const mergeOrder = (ours: unknown, theirs: unknown) => {
+  const ids = ((ours || []) as Json[]).map(element => element.id as string);
+  ((theirs || []) as Json[]).forEach(element => {
+    if (!ids.includes(element.id as string)) ids.push(element.id as string);
+  });
+  return ids;
+};
+
+// Normalizes a file to the current format so that versions saved by different
+// editor releases compare field by field. Throws `WorkflowImportError` for invalid files.
+const normalize = (data: unknown): Json => {
+  const exported: Json = Workflow.fromImportData(data).toExportObject();
+  return {
+    ...exported, nodes: byId(exported.nodes), edges: byId(exported.edges), annotations: byId(exported.annotations),
+  };
+};
+
+// The whole file, minus the timestamp every save changes.
+const withoutTimestamp = (data: Json) =>
+  Object.fromEntries(Object.entries(data).filter(([key]) => key !== 'updatedAt'));
+
+class Merger {
+  conflicts: MergeConflict[] = [];
+  mergedChanges = 0;
+  private sides: Json[];
+
+  constructor(base: Json, ours: Json, theirs: Json) {
+    // Looked up in this order to name the node or edge of a conflict.
+    this.sides = [ours, theirs, base];
+  }
+
+  merge(base: unknown, ours: unknown, theirs: unknown, path: string[]): unknown {
+    if (isEqual(ours, theirs)) return ours;
+    if (isEqual(base, ours) || isEqual(base, theirs)) {
+      this.mergedChanges++;
+      return isEqual(base, ours) ? theirs : ours;
+    }
+    // Changed differently on both sides: descend while both are still objects.
+    if (isObject(ours) && isObject(theirs)) {
+      const baseObject = isObject(base) ? base : {};
+      const keys = [...new Set([...Object.keys(ours), ...Object.keys(theirs)])];
+      const merged: Json = {};
+      for (const key of keys) {
+        const value = this.merge(baseObject[key], ours[key], theirs[key], [...path, key]);
+        if (value !== undefined) merged[key] = value;
+      }
+      return merged;
+    }
+    this.conflicts.push({ path, label: this.describe(path), base, ours, theirs });
+    return ours;
+  }
+
+  private describe(path: string[]) {
+    const [collection, id, ...rest] = path;
+    if (collection !== 'nodes' && collection !== 'edges' && collection !== 'annotations') return path.join('.');
+
+    const element = this.sides
+      .map(side => (side[collection] as Json)[id] as Json | undefined)
+      .find(Boolean) || {};
+    const elementData = element.data as Json | undefined;
+    const name = collection === 'nodes'
+      ? `Node "${elementData?.label || id}"`
+      : collection === 'edges'
+        ? `Edge ${element.source} → ${element.target}`
+        : element.type === 'group' ? `Group "${elementData?.title || id}"` : `Note ${id}`;
+    // `data` is an implementation detail of the file; `inputs.x` reads better than `data.inputs.x`.
+    const field = (rest[0] === 'data' ? rest.slice(1) : rest).join('.');
+    return field ? `${name} › ${field}` : name;
+  }
+}
+
+/**
+ * Merges two edited copies of a workflow file against their common ancestor.
+ * The files may be in any format version `Workflow.fromImportData` accepts.
+ */
+export function mergeWorkflowData(base: unknown, ours: unknown, theirs: unknown): WorkflowMerge {
+  const [baseData, oursData, theirsData] = [normalize(base), normalize(ours), normalize(theirs)];
+  const merger = new Merger(baseData, oursData, theirsData);
+
+  const merged = merger.merge(
+    withoutTimestamp(baseData), withoutTimestamp(oursData), withoutTimestamp(theirsData), []
+  ) as Json;
+  // Saving on both branches always changes the timestamp; the later one wins.
+  merged.updatedAt = [oursData.updatedAt as string, theirsData.updatedAt as string].sort().pop();
+
+  return {
+    conflicts: merger.conflicts,
+    mergedChanges: merger.mergedChanges,
+    merged,
+    nodeOrder: mergeOrder(Object.values(oursData.nodes as Json), Object.values(theirsData.nodes as Json)),
+    edgeOrder: mergeOrder(Object.values(oursData.edges as Json), Object.values(theirsData.edges as Json)),
+    annotationOrder: mergeOrder(Object.values(oursData.annotations as Json), Object.values(theirsData.annotations as Json)),
+  };
+}
+
+/**
+ * Builds the merged workflow, taking the chosen side of each conflict (by index
+ * in `merge.conflicts`). Edges left pointing at a node that one side deleted are dropped.
+ */
+export function resolveMerge(merge: WorkflowMerge, choices: MergeSide[]): Workflow {
+  const data: Json = JSON.parse(JSON.stringify(merge.merged));
+
+  merge.conflicts.forEach((conflict, index) => {
+    const value = choices[index] === 'theirs' ? conflict.theirs : conflict.ours;
+    const parent = conflict.path.slice(0, -1).reduce<Json>((object, key) => {
+      if (!isObject(object[key])) object[key] = {};
+      return object[key] as Json;
+    }, data);
+    const key = conflict.path[conflict.path.length - 1];
+    if (value === undefined) {
+      delete parent[key];
+    } else {
+      parent[key] = JSON.parse(JSON.stringify(value));
+    }
+  });
+
+  const nodes = data.nodes as Json;
+  const edges = data.edges as Record<string, Json>;
+  const annotations = data.annotations as Json;
+  return Workflow.fromImportData({
+    ...data,
+    nodes: merge.nodeOrder.filter(id => nodes[id]).map(id => nodes[id]),
+    edges: merge.edgeOrder
+      .filter(id => edges[id] && nodes[edges[id].source as string] && nodes[edges[id].target as string])
+      .map(id => edges[id]),
+    annotations: merge.annotationOrder.filter(id => annotations[id]).map(id => annotations[id]),
+  });
+}
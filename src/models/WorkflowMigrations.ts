@@ -0,0 +1,244 @@
+// src/models/WorkflowMigrations.ts
+
+import { WorkflowNode, NodeType } from './WorkflowNode';
+
+/**
+ * Version of the editor file format written by `Workflow.toExportObject`.
+ * Bump it together with a new entry in `migrations` whenever the shape changes.
+ *
+ *   1 - node parameters lived in `data.config`
+ *   2 - node parameters live in `data.inputs` (1 and 2 were saved without `formatVersion`)
+ *   3 - edges bind explicit ports through `sourceHandle` / `targetHandle`
+ *   4 - parallel edges describe their join (`joinMode`) instead of `waitForAll`
+ *   5 - sticky notes and group frames are kept in `annotations`
+ */
+export const CURRENT_FORMAT_VERSION = 5;
+
+// The raw, JSON-parsed shape of an editor file. Migrations work on plain data
+// because older files cannot be re-hydrated into today's classes.
+export interface RawWorkflowData {
+  formatVersion?: number;
+  nodes?: RawNodeData[];
+  edges?: RawEdgeData[];
+  annotations?: RawAnnotationData[];
+  [key: string]: unknown;
+}
+
+export interface RawNodeData {
+  id: string;
+  type: string;
+  data?: {
+    config?: Record<string, unknown>;
+    inputs?: Record<string, unknown>;
+    outputs?: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export interface RawEdgeData {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string;
+  targetHandle?: string;
+  [key: string]: unknown;
+}
+
+export interface RawAnnotationData {
+  id: string;
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface WorkflowMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (data: RawWorkflowData) => RawWorkflowData;
+  // Edges of the migrated data that lost a binding the old format implied
+  unboundEdges?: (data: RawWorkflowData) => RawEdgeData[];
+}
+
+export interface MigrationResult {
+  data: RawWorkflowData;
+  applied: WorkflowMigration[];
+  // Edges the user has to connect to a port by hand
+  unboundEdges: RawEdgeData[];
+}
+
+// Config keys from version 1 files and the input each one moved to.
+const LEGACY_CONFIG_KEYS: Partial<Record<NodeType, Record<string, string>>> = {
+  llm: {
+    apiKey: 'api_key', api_key: 'api_key',
+    model: 'model',
+    temperature: 'temperature',
+    maxTokens: 'max_tokens', max_tokens: 'max_tokens',
+    systemPrompt: 'system_prompt', system_prompt: 'system_prompt',
+    userPrompt: 'user_prompt', user_prompt: 'user_prompt',
+  },
+  tool: {
+    toolType: 'tool_type', tool_type: 'tool_type',
+    endpoint: 'endpoint',
+    method: 'method',
+    headers: 'headers',
+    payload: 'payload',
+  },
+  interrupt: {
+    message: 'message',
+    timeout: 'timeout',
+    priority: 'priority',
+    requiresApproval: 'requires_approval', requires_approval: 'requires_approval',
+  },
+};
+
+const moveConfigIntoInputs = (data: RawWorkflowData): RawWorkflowData => ({
+  ...data,
+  nodes: (data.nodes || []).map(node => {
+    // Start from today's defaults so inputs and outputs the old format never had exist.
+    const defaults = new WorkflowNode(node.id, node.type as NodeType, { x: 0, y: 0 }, {}).data;
+    const inputs: Record<string, unknown> = { ...defaults.inputs, ...node.data?.inputs };
+    const outputs = node.data?.outputs || defaults.outputs;
+
+    const keyMap = LEGACY_CONFIG_KEYS[node.type as NodeType] || {};
+    const config = node.data?.config;
+    const remainingConfig: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(config || {})) {
+      if (keyMap[key]) {
+        inputs[keyMap[key]] = value;
+      } else {
+        remainingConfig[key] = value;
+      }
+    }
+    return { ...node, data: { ...node.data, config: config && remainingConfig, inputs, outputs } };
+  }),
+});
+
+// Before explicit ports, the exporter filled the first empty input of the target
+// with the source's first output. That guess is only pinned onto an edge when it
+// cannot be wrong: the edge is the target's only one without ports, the source
+// has a single output and the target a single empty input. Other edges keep
+// connecting their nodes without binding a port.
+const inferPortHandles = (data: RawWorkflowData): RawWorkflowData => {
+  const nodes = data.nodes || [];
+  const isUnbound = (edge: RawEdgeData) => edge.sourceHandle === undefined && edge.targetHandle === undefined;
+  const unboundIncoming = new Map<string, number>();
+  (data.edges || []).filter(isUnbound).forEach(edge => {
+    unboundIncoming.set(edge.target, (unboundIncoming.get(edge.target) || 0) + 1);
+  });
+
+  return {
+    ...data,
+    edges: (data.edges || []).map(edge => {
+      if (!isUnbound(edge) || unboundIncoming.get(edge.target) !== 1) return edge;
+
+      const sourceNode = nodes.find(node => node.id === edge.source);
+      const targetNode = nodes.find(node => node.id === edge.target);
+      const outputKeys = Object.keys(sourceNode?.data?.outputs || {});
+      const inputs = targetNode?.data?.inputs || {};
+      const emptyInputs = Object.keys(inputs).filter(key => !inputs[key]);
+      if (outputKeys.length !== 1 || emptyInputs.length !== 1) return edge;
+
+      return { ...edge, sourceHandle: outputKeys[0], targetHandle: emptyInputs[0] };
+    }),
+  };
+};
+
+// Edges `inferPortHandles` left without ports although the old exporter bound
+// them: the source has an output and the target an empty input to fill.
+const findUnpinnedBindings = (data: RawWorkflowData): RawEdgeData[] => {
+  const nodes = data.nodes || [];
+  return (data.edges || []).filter(edge => {
+    if (edge.sourceHandle !== undefined || edge.targetHandle !== undefined) return false;
+    const sourceNode = nodes.find(node => node.id === edge.source);
+    const targetNode = nodes.find(node => node.id === edge.target);
+    const inputs = targetNode?.data?.inputs || {};
+    return Object.keys(sourceNode?.data?.outputs || {}).length > 0 && Object.values(inputs).some(value => !value);
+  });
+};
+
+// `waitForAll` became a join mode, and the never-editable `branches` list is
+// implied by the fan-out's edges.
+const replaceWaitForAllWithJoinMode = (data: RawWorkflowData): RawWorkflowData => ({
+  ...data,
+  edges: (data.edges || []).map(edge => {
+    const edgeData = edge.data as { config?: Record<string, unknown> } | undefined;
+    if (edge.type !== 'parallel' || !edgeData?.config) return edge;
+
+    const config: Record<string, unknown> = { ...edgeData.config };
+    config.joinMode = config.joinMode || (config.waitForAll === false ? 'any' : 'all');
+    delete config.waitForAll;
+    delete config.branches;
+    return { ...edge, data: { ...edgeData, config } };
+  }),
+});
+
+// Files from before annotations simply have none.
+const addAnnotations = (data: RawWorkflowData): RawWorkflowData => ({
+  ...data,
+  annotations: data.annotations || [],
+});
+
+export const migrations: WorkflowMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'Moved node parameters from config into inputs',
+    migrate: moveConfigIntoInputs,
+  },
+  {
+    from: 2,
+    to: 3,
+    description: 'Pinned implicit input bindings to explicit edge ports',
+    migrate: inferPortHandles,
+    unboundEdges: findUnpinnedBindings,
+  },
+  {
+    from: 3,
+    to: 4,
+    description: 'Replaced "wait for all" on parallel edges with a join mode',
+    migrate: replaceWaitForAllWithJoinMode,
+  },
+  {
+    from: 4,
+    to: 5,
+    description: 'Added sticky notes and group frames',
+    migrate: addAnnotations,
+  },
+];
+
+/**
+ * The format version of a file saved before versioning, told apart by its shape:
+ * nodes with `data.inputs` are version 2, the last unversioned format; otherwise
+ * parameters still live in `data.config` and the file is version 1.
+ */
+const detectUnversionedFormat = (data: RawWorkflowData): number =>
+  (data.nodes || []).some(node => node.data?.inputs !== undefined) ? 2 : 1;
+
+/**
+ * Upgrades an editor file to `CURRENT_FORMAT_VERSION`, one version at a time.
+ * Files without a `formatVersion` predate versioning; their version is detected from their shape.
+ */
+export function migrateWorkflowData(data: RawWorkflowData): MigrationResult {
+  let version = typeof data.formatVersion === 'number' ? data.formatVersion : detectUnversionedFormat(data);
+  if (version > CURRENT_FORMAT_VERSION) {
+    throw new Error(
+      `Workflow file format version ${version} is newer than this editor supports (${CURRENT_FORMAT_VERSION}).`
+    );
+  }
+
+  let migrated = data;
+  const applied: WorkflowMigration[] = [];
+  const unboundEdges: RawEdgeData[] = [];
+  while (version < CURRENT_FORMAT_VERSION) {
+    const migration = migrations.find(m => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration available from workflow file format version ${version}.`);
+    }
+    migrated = { ...migration.migrate(migrated), formatVersion: migration.to };
+    applied.push(migration);
+    unboundEdges.push(...(migration.unboundEdges?.(migrated) || []));
+    version = migration.to;
+  }
+  return { data: migrated, applied, unboundEdges };
+}
@@ -1,6 +1,12 @@
 // src/models/WorkflowNode.ts
 
-export type NodeType = 'start' | 'end' | 'llm' | 'tool' | 'interrupt' | 'userInput';
+import { PortSchema, normalizeSchema, inferSchema } from './PortSchema';
+import { NodeTypeDefinition, registerNodeType, getNodeTypeDefinition, createNodeConfig } from './NodeTypeRegistry';
+
+export type BuiltInNodeType = 'start' | 'end' | 'llm' | 'tool' | 'interrupt' | 'userInput' | 'subworkflow';
+
+// Any registered type; the built-in names stay listed for autocompletion.
+export type NodeType = BuiltInNodeType | (string & {});
 
 // Base interface for data attached to a node.
 export interface NodeData {
@@ -8,16 +14,61 @@ export interface NodeData {
   description?: string;
   config?: NodeConfig;
   inputs?: Record<string, any>;
+  // Output ports mapped to their schema (or the bare type name, e.g. 'string').
   outputs?: Record<string, any>;
+  // Declared input types. Inputs without an entry are typed by their default value.
+  inputSchemas?: Record<string, PortSchema>;
 }
 
 
 // --- CONFIGURATION CLASSES ---
 // These classes hold non-input settings, like UI properties or execution metadata (e.g., timeouts, retries).
-// For now, they are minimal, providing a clean structure for future features.
 
-export abstract class BaseNodeConfig {
+// What happens once a node has used up its retries: stop the workflow, carry on
+// with `fallbackValue` as every output, or follow the node's `error` edges.
+export type ErrorBehavior = 'fail' | 'fallback' | 'route';
+
+export const ERROR_BEHAVIORS: ErrorBehavior[] = ['fail', 'fallback', 'route'];
+
+export interface ExecutionPolicy {
+  retries: number;
+  // Delay before the first retry; each further retry waits `backoffMultiplier` times longer.
+  retryDelay: number;
+  backoffMultiplier: number;
+  // Milliseconds a single attempt may take; 0 means no limit.
+  timeout: number;
+  onError: ErrorBehavior;
+  // JSON text, or plain text when it does not parse.
+  fallbackValue: string;
+}
+
+export abstract class BaseNodeConfig implements ExecutionPolicy {
+  retries: number = 0;
+  retryDelay: number = 1000;
+  backoffMultiplier: number = 2;
+  timeout: number = 0;
+  onError: ErrorBehavior = 'fail';
+  fallbackValue: string = '';
+
   abstract getConfigType(): string;
+
+  validatePolicy(): boolean {
+    return this.retries >= 0 && this.retryDelay >= 0 && this.backoffMultiplier >= 1 && this.timeout >= 0
+      && ERROR_BEHAVIORS.includes(this.onError);
+  }
+
+  getFallbackValue(): unknown {
+    try {
+      return JSON.parse(this.fallbackValue);
+    } catch {
+      return this.fallbackValue;
+    }
+  }
+
+  /** Returns a copy of this config, of the same class, with the policy fields changed. */
+  withPolicy(policy: Partial<ExecutionPolicy>): this {
+    return Object.assign(Object.create(Object.getPrototypeOf(this)), this, policy);
+  }
 }
 
 export class LLMNodeConfig extends BaseNodeConfig {
@@ -59,7 +110,84 @@ export class InputNodeConfig extends BaseNodeConfig {
   getConfigType(): string { return 'userInput'; }
 }
 
-export type NodeConfig = LLMNodeConfig | ToolNodeConfig | InterruptNodeConfig | InputNodeConfig; 
+export class SubworkflowNodeConfig extends BaseNodeConfig {
+  // Id of the embedded workflow in the store's `workflows` list. Its ports are
+  // mirrored onto the node by `Workflow.syncSubworkflowPorts`.
+  workflowId: string = '';
+
+  constructor(config?: Partial<SubworkflowNodeConfig>) {
+    super();
+    if (config) Object.assign(this, config);
+  }
+
+  getConfigType(): string { return 'subworkflow'; }
+}
+
+// Node types from the registry may bring their own subclass, so any config will do.
+export type NodeConfig = BaseNodeConfig;
+
+
+// --- BUILT-IN NODE TYPES ---
+
+const BUILT_IN_DEFINITIONS: NodeTypeDefinition[] = [
+  { type: 'start', label: 'Start', outputs: { value: 'string' }, unique: true },
+  { type: 'end', label: 'End', unique: true },
+  {
+    type: 'llm',
+    label: 'LLM',
+    // All operational parameters are defined as default inputs.
+    inputs: {
+      api_key: '',
+      model: 'gpt-4',
+      temperature: 0.7,
+      max_tokens: 1024,
+      system_prompt: 'You are a helpful assistant.',
+      user_prompt: '',
+      context: '', // This is the dynamic input that will come from another node.
+    },
+    outputs: { summary: 'string' },
+    configClass: LLMNodeConfig,
+  },
+  {
+    type: 'tool',
+    label: 'Tool',
+    inputs: {
+      tool_type: 'API', // e.g., 'API', 'Function', 'Plugin'
+      endpoint: '',
+      method: 'GET',
+      headers: '{}', // Stored as a JSON string
+      payload: '{}', // Stored as a JSON string
+    },
+    outputs: { result: 'string' }, // The output of the tool call
+    configClass: ToolNodeConfig,
+  },
+  {
+    type: 'interrupt',
+    label: 'Interrupt',
+    inputs: {
+      message: 'User input required.',
+      timeout: 300, // in seconds
+      priority: 'medium',
+      requires_approval: false,
+      string: '', // This is the dynamic input that comes from another node.
+    },
+    outputs: { value: 'string' },
+    configClass: InterruptNodeConfig,
+  },
+  { type: 'userInput', label: 'Input', configClass: InputNodeConfig },
+  {
+    type: 'subworkflow',
+    label: 'Subworkflow',
+    configClass: SubworkflowNodeConfig,
+    // The runtime runs the embedded workflow from the export's `subgraphs`.
+    toBackend: (node, backendNode) => {
+      const workflowId = node.getConfig<SubworkflowNodeConfig>()?.workflowId;
+      return workflowId ? { ...backendNode, subgraph: workflowId } : backendNode;
+    },
+  },
+];
+
+BUILT_IN_DEFINITIONS.forEach(registerNodeType);
 
 
 // --- MAIN WORKFLOW NODE CLASS ---
@@ -83,48 +211,13 @@ export class WorkflowNode {
   }
 
   /**
-   * Initializes the inputs and outputs for a node based on its type.
+   * Initializes the inputs and outputs for a node from its type's registered defaults.
    * This ensures every node is created with a complete and correct data structure.
    */
   private initializeNodeData(type: NodeType, data: NodeData): NodeData {
-    const inputs: Record<string, any> = {};
-    const outputs: Record<string, any> = {};
-
-    switch (type) {
-      case 'start':
-        outputs['value'] = 'string';
-        break;
-      case 'llm':
-        // All operational parameters are now defined as default inputs.
-        inputs['api_key'] = '';
-        inputs['model'] = 'gpt-4';
-        inputs['temperature'] = 0.7;
-        inputs['max_tokens'] = 1024;
-        inputs['system_prompt'] = 'You are a helpful assistant.';
-        inputs['user_prompt'] = '';
-        inputs['context'] = ''; // This is the dynamic input that will come from another node.
-        outputs['summary'] = 'string';
-        break;
-      case 'tool':
-        // All tool parameters are now defined as default inputs.
-        inputs['tool_type'] = 'API'; // e.g., 'API', 'Function', 'Plugin'
-        inputs['endpoint'] = '';
-        inputs['method'] = 'GET';
-        inputs['headers'] = '{}'; // Stored as a JSON string
-        inputs['payload'] = '{}'; // Stored as a JSON string
-        outputs['result'] = 'string'; // The output of the tool call
-        break;
-      case 'interrupt':
-        // All interrupt parameters are now defined as default inputs.
-        inputs['message'] = 'User input required.';
-        inputs['timeout'] = 300; // in seconds
-        inputs['priority'] = 'medium';
-        inputs['requires_approval'] = false;
-        // This is the dynamic input that comes from another node.
-        inputs['string'] = ''; 
-        outputs['value'] = 'string';
-        break;
-    }
+    const definition = getNodeTypeDefinition(type);
+    const inputs: Record<string, any> = { ...definition?.inputs };
+    const outputs: Record<string, any> = { ...definition?.outputs };
 
     // Preserve any existing data while applying the new defaults for inputs/outputs if they don't exist.
     return { ...data, inputs: data.inputs || inputs, outputs: data.outputs || outputs };
@@ -133,6 +226,14 @@ export class WorkflowNode {
   isStartNode(): boolean { return this.type === 'start'; }
   isEndNode(): boolean { return this.type === 'end'; }
 
+  getInputSchema(key: string): PortSchema {
+    return this.data.inputSchemas?.[key] || inferSchema(this.data.inputs?.[key]);
+  }
+
+  getOutputSchema(key: string): PortSchema {
+    return normalizeSchema(this.data.outputs?.[key]);
+  }
+
   getConfig<T extends BaseNodeConfig>(): T | undefined {
     return this.data.config as T | undefined;
   }
@@ -141,32 +242,15 @@ export class WorkflowNode {
    * Creates a deep copy of the node, correctly re-instantiating the config class.
    */
   clone(): WorkflowNode {
-    let clonedConfig: NodeConfig | undefined;
-
-    if (this.data.config) {
-      const configData = { ...this.data.config };
-      switch (this.type) {
-        case 'llm':
-          clonedConfig = new LLMNodeConfig(configData as LLMNodeConfig);
-          break;
-        case 'tool':
-          clonedConfig = new ToolNodeConfig(configData as ToolNodeConfig);
-          break;
-        case 'interrupt':
-          clonedConfig = new InterruptNodeConfig(configData as InterruptNodeConfig);
-          break;
-        case 'userInput':
-          clonedConfig = new InputNodeConfig(configData as InputNodeConfig);
-          break;  
-      }
-    }
+    const clonedConfig = this.data.config ? createNodeConfig(this.type, { ...this.data.config }) : undefined;
     
     // Create a deep copy of the data object
     const clonedData = { 
       ...this.data,
       config: clonedConfig,
       inputs: this.data.inputs ? { ...this.data.inputs } : undefined,
-      outputs: this.data.outputs ? { ...this.data.outputs } : undefined
+      outputs: this.data.outputs ? { ...this.data.outputs } : undefined,
+      inputSchemas: this.data.inputSchemas ? { ...this.data.inputSchemas } : undefined
     };
     
     return new WorkflowNode(this.id, this.type, { ...this.position }, clonedData);
@@ -0,0 +1,427 @@
+// src/models/WorkflowSimulator.ts
+
+import type { Workflow } from './Workflow';
+import { WorkflowNode, NodeType, BaseNodeConfig } from './WorkflowNode';
+import { WorkflowEdge, ConditionalEdgeConfig, LoopingEdgeConfig, ParallelEdgeConfig } from './WorkflowEdge';
+import { parseCondition, evaluateCondition, LOOP_ITERATION_OUTPUT } from './ConditionExpression';
+import { BINDING_REFERENCE } from './BackendFormat';
+
+export type SimulationStatus = 'idle' | 'running' | 'paused' | 'completed' | 'failed';
+export type NodeRunStatus = 'completed' | 'failed';
+
+export interface NodeRunState {
+  status: NodeRunStatus;
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown>;
+  runCount: number;
+  error?: string;
+}
+
+export interface SimulationLogEntry {
+  nodeId?: string;
+  message: string;
+  timestamp: Date;
+}
+
+// A snapshot of a dry run. Like the models themselves, states are never mutated;
+// every step produces a new one.
+export interface SimulationState {
+  status: SimulationStatus;
+  queue: string[];
+  // Nodes already reached that wait for their join, or for predecessors that
+  // can still run, before they are queued.
+  waiting: string[];
+  nodeStates: Record<string, NodeRunState>;
+  loopIterations: Record<string, number>;
+  // Join nodes that have already let their parallel branches continue.
+  firedJoins: string[];
+  log: SimulationLogEntry[];
+}
+
+export interface ExecutionContext {
+  workflow: Workflow;
+  state: SimulationState;
+  startInput: string;
+}
+
+export type NodeExecutor = (
+  node: WorkflowNode,
+  inputs: Record<string, unknown>,
+  context: ExecutionContext
+) => Record<string, unknown> | Promise<Record<string, unknown>>;
+
+export type NodeExecutors = Partial<Record<NodeType, NodeExecutor>>;
+
+// Every output a node declares gets the same mock value.
+const fillOutputs = (node: WorkflowNode, value: unknown): Record<string, unknown> =>
+  Object.fromEntries(Object.keys(node.data.outputs || {}).map(key => [key, value]));
+
+// Rejects when `promise` has not settled within `ms` milliseconds; 0 means no limit.
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+  if (ms <= 0) return promise;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+const truncate = (value: unknown, length = 40): string => {
+  const text = String(value ?? '');
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+};
+
+export const mockExecutors: NodeExecutors = {
+  start: (node, _inputs, context) => fillOutputs(node, context.startInput),
+  end: (_node, inputs) => inputs,
+  llm: (node, inputs) => fillOutputs(
+    node,
+    `[mock ${inputs.model || 'llm'}] response to "${truncate(inputs.user_prompt || inputs.context)}"`
+  ),
+  tool: (node, inputs) => fillOutputs(
+    node,
+    JSON.stringify({ mock: true, method: inputs.method, endpoint: inputs.endpoint })
+  ),
+  interrupt: (node) => fillOutputs(node, 'approved'),
+  subworkflow: (node) => fillOutputs(node, `[mock output of ${node.data.label || 'subworkflow'}]`),
+  userInput: (node, inputs) => {
+    const fields = (inputs.input_fields as { key: string; value: string }[] | undefined) || [];
+    return { ...fillOutputs(node, ''), ...Object.fromEntries(fields.map(field => [field.key, field.value])) };
+  },
+};
+
+export class WorkflowSimulator {
+  workflow: Workflow;
+  executors: NodeExecutors;
+  startInput: string;
+
+  constructor(workflow: Workflow, executors: NodeExecutors = {}, startInput: string = '') {
+    this.workflow = workflow;
+    this.executors = { ...mockExecutors, ...executors };
+    this.startInput = startInput;
+  }
+
+  initialState(): SimulationState {
+    const startNodes = this.workflow.getStartNodes();
+    return {
+      status: startNodes.length > 0 ? 'paused' : 'failed',
+      queue: startNodes.map(node => node.id),
+      waiting: [],
+      nodeStates: {},
+      loopIterations: {},
+      firedJoins: [],
+      log: [{
+        message: startNodes.length > 0 ? 'Simulation ready.' : 'Workflow has no Start node.',
+        timestamp: new Date(),
+      }],
+    };
+  }
+
+  /** The node that the next call to `step` will execute, if any. */
+  nextNodeId(state: SimulationState): string | undefined {
+    return state.queue[0];
+  }
+
+  isFinished(state: SimulationState): boolean {
+    return state.status === 'completed' || state.status === 'failed';
+  }
+
+  /**
+   * Executes the node at the head of the queue and enqueues the targets of
+   * whichever outgoing edges are taken.
+   */
+  async step(state: SimulationState): Promise<SimulationState> {
+    if (this.isFinished(state)) return state;
+
+    const [nodeId, ...rest] = state.queue;
+    if (!nodeId) {
+      return this.withLog({ ...state, status: 'completed' }, 'Simulation completed.');
+    }
+
+    const node = this.workflow.findNode(nodeId);
+    if (!node) {
+      return this.withLog({ ...state, status: 'failed', queue: rest }, `Node ${nodeId} no longer exists.`, nodeId);
+    }
+
+    const join = this.checkJoin(node, state);
+    if (join === 'waiting' || join === 'fired') {
+      const waiting = this.withLog(this.schedule({ ...state, queue: rest }, join === 'waiting' ? [nodeId] : []), join === 'waiting'
+        ? `"${node.data.label || nodeId}" is waiting for more parallel branches.`
+        : `"${node.data.label || nodeId}" already continued; ignoring a late parallel branch.`, nodeId);
+      return waiting.queue.length === 0 ? this.withLog({ ...waiting, status: 'completed' }, 'No more nodes to run.') : waiting;
+    }
+    if (join === 'ready') state = { ...state, firedJoins: [...state.firedJoins, nodeId] };
+
+    const inputs = this.resolveInputs(node, state);
+    const previous = state.nodeStates[nodeId];
+    const runCount = (previous?.runCount || 0) + 1;
+    const context: ExecutionContext = { workflow: this.workflow, state, startInput: this.startInput };
+
+    const label = node.data.label || nodeId;
+    const policy = node.getConfig();
+    const result = await this.execute(node, inputs, context);
+    let next: SimulationState = { ...state, queue: rest };
+    for (const message of result.messages) next = this.withLog(next, message, nodeId);
+
+    let outputs = result.outputs;
+    if (!outputs) {
+      const failedState: NodeRunState = { status: 'failed', inputs, outputs: {}, runCount, error: result.error };
+      if (policy instanceof BaseNodeConfig && policy.onError === 'fallback') {
+        outputs = fillOutputs(node, policy.getFallbackValue());
+        next = this.withLog(next, `"${label}" failed: ${result.error}; continuing with its fallback value.`, nodeId);
+      } else if (policy instanceof BaseNodeConfig && policy.onError === 'route') {
+        const targets = this.workflow.edges.filter(edge => edge.source === nodeId && edge.isError()).map(edge => edge.target);
+        next = this.withLog(this.schedule({
+          ...next,
+          nodeStates: { ...next.nodeStates, [nodeId]: failedState },
+        }, targets), `"${label}" failed: ${result.error}; following its error edges.`, nodeId);
+        return next.queue.length === 0 ? this.withLog({ ...next, status: 'completed' }, 'No more nodes to run.') : next;
+      } else {
+        return this.withLog({
+          ...next,
+          status: 'failed',
+          nodeStates: { ...next.nodeStates, [nodeId]: failedState },
+        }, `"${label}" failed: ${result.error}`, nodeId);
+      }
+    }
+
+    next = {
+      ...next,
+      nodeStates: { ...next.nodeStates, [nodeId]: { status: 'completed', inputs, outputs, runCount } },
+    };
+    next = this.withLog(next, `Executed "${node.data.label || nodeId}".`, nodeId);
+
+    // Fanning out again (e.g. inside a loop) re-arms the join of this fan-out.
+    const ownJoin = this.workflow.getParallelBranches(nodeId).length > 0 ? this.workflow.findJoinNode(nodeId) : undefined;
+    if (ownJoin) next = { ...next, firedJoins: next.firedJoins.filter(id => id !== ownJoin.id) };
+
+    if (node.isEndNode()) {
+      return this.withLog({ ...next, status: 'completed', queue: [] }, 'Reached the End node.', nodeId);
+    }
+
+    const { targets, loopIterations, messages } = this.selectOutgoing(node, next);
+    next = this.schedule({ ...next, loopIterations }, targets);
+    for (const message of messages) next = this.withLog(next, message, nodeId);
+
+    if (next.queue.length === 0) {
+      return this.withLog({ ...next, status: 'completed' }, 'No more nodes to run.');
+    }
+    return next;
+  }
+
+  /**
+   * Replaces `$nodeId.outputKey` references (whether written in the inputs or
+   * implied by incoming edges) with the values produced so far.
+   */
+  resolveInputs(node: WorkflowNode, state: SimulationState): Record<string, unknown> {
+    const inputs: Record<string, unknown> = { ...node.data.inputs, ...this.workflow.getInputBindings(node) };
+
+    // End nodes declare no inputs; they collect whatever flows into them.
+    if (node.isEndNode()) {
+      for (const edge of this.workflow.edges.filter(e => e.target === node.id)) {
+        Object.assign(inputs, state.nodeStates[edge.source]?.outputs);
+      }
+    }
+
+    for (const [key, value] of Object.entries(inputs)) {
+      if (typeof value === 'string') {
+        const match = BINDING_REFERENCE.exec(value);
+        if (match) inputs[key] = state.nodeStates[match[1]]?.outputs[match[2]];
+      }
+    }
+    return inputs;
+  }
+
+  /**
+   * Runs a node's executor under its execution policy: every attempt is cut off
+   * after `timeout` ms and failed attempts are retried up to `retries` times.
+   * The dry run logs the backoff delay instead of waiting for it.
+   */
+  private async execute(node: WorkflowNode, inputs: Record<string, unknown>, context: ExecutionContext) {
+    const executor = this.executors[node.type];
+    const config = node.getConfig();
+    const policy = config instanceof BaseNodeConfig ? config : undefined;
+    const attempts = (policy?.retries ?? 0) + 1;
+    const messages: string[] = [];
+    let error = '';
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        const outputs = executor ? await withTimeout(Promise.resolve(executor(node, inputs, context)), policy?.timeout || 0) : {};
+        return { outputs, messages };
+      } catch (caught) {
+        error = caught instanceof Error ? caught.message : String(caught);
+        if (attempt < attempts) {
+          const delay = Math.round(policy!.retryDelay * policy!.backoffMultiplier ** (attempt - 1));
+          messages.push(`Attempt ${attempt} of ${attempts} failed: ${error}. Retrying after ${delay} ms.`);
+        }
+      }
+    }
+    return { outputs: undefined, error, messages };
+  }
+
+  private selectOutgoing(node: WorkflowNode, state: SimulationState) {
+    // Error edges are only followed when the node fails.
+    const outgoing = this.workflow.edges.filter(edge => edge.source === node.id && !edge.isError());
+    const loopIterations = { ...state.loopIterations };
+    const messages: string[] = [];
+    const targets: string[] = [];
+
+    // A loop that has repeats left goes back on its own, as the generated
+    // routing does; the other edges are followed once it has ended.
+    const loop = outgoing.find(edge => edge.isLooping() && this.shouldLoop(edge, state, loopIterations, messages));
+    if (loop) return { targets: [loop.target], loopIterations, messages };
+
+    // Conditional edges take priority; the remaining edges act as the default
+    // branch and are only followed when no condition matched.
+    const conditional = outgoing.filter(edge => edge.isConditional());
+    const matched = conditional.filter(edge => {
+      const condition = edge.getConfig<ConditionalEdgeConfig>()?.condition || '';
+      const result = this.testCondition(condition, state);
+      messages.push(`Condition "${condition}" is ${result}.`);
+      return result;
+    });
+    targets.push(...matched.map(edge => edge.target));
+
+    if (matched.length === 0) {
+      targets.push(...outgoing.filter(edge => !edge.isConditional() && !edge.isLooping()).map(edge => edge.target));
+    }
+
+    return { targets, loopIterations, messages };
+  }
+
+  /**
+   * Queues the nodes of `targets`, and of those already waiting, that may run
+   * now. A node that closes a parallel fan-out waits until its join is ready;
+   * any other node reached by several edges waits while one of its
+   * predecessors can still run. Once nothing else is queued, every waiting node
+   * is let go, as the runtime's timeouts would.
+   */
+  private schedule(state: SimulationState, targets: string[]): SimulationState {
+    const queue = [...state.queue];
+    const candidates = [...state.waiting, ...targets.filter(id => !queue.includes(id) && !state.waiting.includes(id))];
+    const waiting: string[] = [];
+    for (const id of candidates) {
+      const node = this.workflow.findNode(id);
+      const join = node ? this.checkJoin(node, state) : 'none';
+      const ready = join === 'none' ? !this.hasLivePredecessor(id, { ...state, queue, waiting: candidates }) : join !== 'waiting';
+      (ready ? queue : waiting).push(id);
+    }
+    return queue.length > 0 ? { ...state, queue, waiting } : { ...state, queue: waiting, waiting: [] };
+  }
+
+  /**
+   * Whether a node reached by several edges still has a predecessor that can
+   * run: one that is queued or waiting, or reachable from those without passing
+   * through the node. Looping edges back to the node are not waited for.
+   */
+  private hasLivePredecessor(nodeId: string, state: SimulationState): boolean {
+    const predecessors = new Set(this.workflow.edges
+      .filter(edge => edge.target === nodeId && edge.source !== nodeId && !edge.isLooping())
+      .map(edge => edge.source));
+    if (predecessors.size < 2) return false;
+
+    const visited = new Set<string>([nodeId]);
+    const pending = [...state.queue, ...state.waiting].filter(id => id !== nodeId);
+    while (pending.length > 0) {
+      const current = pending.shift()!;
+      if (visited.has(current)) continue;
+      if (predecessors.has(current)) return true;
+      visited.add(current);
+      for (const edge of this.workflow.edges) {
+        if (edge.source === current && !edge.isLooping()) pending.push(edge.target);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Decides whether a node that closes one or more parallel fan-outs may run:
+   * `all` waits for every branch, `any` for one and `firstN` for N. A join only
+   * fires once per fan-out; branches that finish later are ignored.
+   */
+  private checkJoin(node: WorkflowNode, state: SimulationState): 'none' | 'waiting' | 'ready' | 'fired' {
+    const fanOuts = this.workflow.nodes.filter(source =>
+      state.nodeStates[source.id]?.status === 'completed'
+      && this.workflow.getParallelBranches(source.id).length > 0
+      && this.workflow.findJoinNode(source.id)?.id === node.id
+    );
+    if (fanOuts.length === 0) return 'none';
+    if (state.firedJoins.includes(node.id)) return 'fired';
+
+    const completedSources = this.workflow.edges
+      .filter(edge => edge.target === node.id && state.nodeStates[edge.source]?.status === 'completed')
+      .map(edge => edge.source);
+    const ready = fanOuts.every(source => {
+      const branches = this.workflow.getParallelBranches(source.id);
+      const config = branches[0].getConfig<ParallelEdgeConfig>() || new ParallelEdgeConfig();
+      // A branch has finished once a node on it that feeds the join has completed.
+      const finished = branches.filter(branch => branch.target === node.id || completedSources.some(sourceId =>
+        this.workflow.getUpstreamNodes(sourceId).some(upstream => upstream.id === branch.target)
+      )).length;
+      const required = config.joinMode === 'any' ? 1
+        : config.joinMode === 'firstN' ? Math.min(config.joinCount, branches.length)
+        : branches.length;
+      return finished >= required;
+    });
+    return ready ? 'ready' : 'waiting';
+  }
+
+  private shouldLoop(
+    edge: WorkflowEdge,
+    state: SimulationState,
+    loopIterations: Record<string, number>,
+    messages: string[]
+  ): boolean {
+    const config = edge.getConfig<LoopingEdgeConfig>();
+    const maxIterations = config?.maxIterations ?? 1;
+    const iterations = loopIterations[edge.id] || 0;
+
+    if (iterations >= maxIterations) {
+      messages.push(`Loop limit of ${maxIterations} reached.`);
+      return false;
+    }
+    if (config?.breakCondition && this.testCondition(config.breakCondition, state)) {
+      messages.push(`Break condition "${config.breakCondition}" met.`);
+      return false;
+    }
+    loopIterations[edge.id] = iterations + 1;
+    messages.push(`Looping (iteration ${iterations + 1} of ${maxIterations}).`);
+    return true;
+  }
+
+  /**
+   * Evaluates a condition against the outputs produced so far. References are
+   * `node.output`, where `node` is a node id or label; `loopTarget.iteration`
+   * counts how many times a loop has gone back to its target.
+   */
+  testCondition(condition: string, state: SimulationState): boolean {
+    if (!condition.trim()) return false;
+    try {
+      return Boolean(evaluateCondition(parseCondition(condition), (path) => this.resolvePath(path, state)));
+    } catch {
+      return false;
+    }
+  }
+
+  private resolvePath([head, ...rest]: string[], state: SimulationState): unknown {
+    const node = this.workflow.findNode(head)
+      || this.workflow.nodes.find(n => n.data.label === head);
+    let value: unknown = node ? state.nodeStates[node.id]?.outputs : undefined;
+    // Loop targets that do not declare `iteration` themselves report how often their loops went back.
+    if (node && rest[0] === LOOP_ITERATION_OUTPUT && !(LOOP_ITERATION_OUTPUT in (node.data.outputs || {}))) {
+      const loops = this.workflow.edges.filter(edge => edge.isLooping() && edge.target === node.id);
+      if (loops.length > 0) {
+        value = { [LOOP_ITERATION_OUTPUT]: loops.reduce((sum, edge) => sum + (state.loopIterations[edge.id] || 0), 0) };
+      }
+    }
+    for (const key of rest) {
+      value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return value;
+  }
+
+  private withLog(state: SimulationState, message: string, nodeId?: string): SimulationState {
+    return { ...state, log: [...state.log, { nodeId, message, timestamp: new Date() }] };
+  }
+}
@@ -0,0 +1,188 @@
+// src/models/WorkflowStorage.ts
+
+// Keeps workflows in the browser's IndexedDB so they survive a reload. Saved
+// workflows and autosaved drafts live in separate stores: a draft exists only
+// while a workflow has changes that were never saved, so finding one at
+// startup means the last session ended before they were. Every save also
+// adds a snapshot to the workflow's version history. Templates saved by the
+// user are kept alongside, and so is the credential vault, in a store of its own
+// that no workflow record ever points into.
+//
+// Records hold the editor file format (`Workflow.toExportObject`) and are read
+// back through `Workflow.fromImportData`, so stored workflows are migrated like
+// imported files when the format changes.
+
+import { Workflow } from './Workflow';
+import { WorkflowTemplate } from './WorkflowTemplate';
+import { StoredSecret } from './Credentials';
+
+const DB_NAME = 'workflow-editor';
+const DB_VERSION = 4;
+const WORKFLOWS_STORE = 'workflows';
+const DRAFTS_STORE = 'drafts';
+const VERSIONS_STORE = 'versions';
+const TEMPLATES_STORE = 'templates';
+const SECRETS_STORE = 'secrets';
+
+type StoreName =
+  typeof WORKFLOWS_STORE | typeof DRAFTS_STORE | typeof VERSIONS_STORE | typeof TEMPLATES_STORE | typeof SECRETS_STORE;
+
+interface DraftRecord {
+  id: string;
+  savedAt: string;
+  data: unknown;
+}
+
+interface VersionRecord {
+  id: string;
+  workflowId: string;
+  savedAt: string;
+  data: unknown;
+}
+
+export interface WorkflowDraft {
+  workflow: Workflow;
+  savedAt: Date;
+}
+
+export interface WorkflowVersion {
+  id: string;
+  workflowId: string;
+  savedAt: Date;
+  workflow: Workflow;
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(WORKFLOWS_STORE, { keyPath: 'id' });
+        db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' }).createIndex('workflowId', 'workflowId');
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 4) {
+        db.createObjectStore(SECRETS_STORE, { keyPath: 'name' });
+      }
+    };
+    database = promisify(request);
+    // Let the next call try again instead of caching the failure.
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
+
+async function withStore<T>(name: StoreName, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase();
+  return promisify(operation(db.transaction(name, mode).objectStore(name)));
+}
+
+// A record that no longer imports is skipped rather than blocking every other workflow.
+const rehydrate = (data: unknown): Workflow | null => {
+  try {
+    return Workflow.fromImportData(data);
+  } catch (error) {
+    console.warn('Skipping a stored workflow that could not be loaded:', error);
+    return null;
+  }
+};
+
+export async function loadStoredWorkflows(): Promise<Workflow[]> {
+  const records = await withStore(WORKFLOWS_STORE, 'readonly', store => store.getAll());
+  return records.map(rehydrate).filter((workflow): workflow is Workflow => workflow !== null);
+}
+
+export async function storeWorkflow(workflow: Workflow): Promise<void> {
+  await withStore(WORKFLOWS_STORE, 'readwrite', store => store.put(workflow.toExportObject()));
+}
+
+/** Removes a workflow together with its draft and version history. */
+export async function deleteStoredWorkflow(id: string): Promise<void> {
+  await withStore(WORKFLOWS_STORE, 'readwrite', store => store.delete(id));
+  await deleteDraft(id);
+  const versionIds = await withStore(VERSIONS_STORE, 'readonly', store => store.index('workflowId').getAllKeys(id));
+  for (const versionId of versionIds) {
+    await withStore(VERSIONS_STORE, 'readwrite', store => store.delete(versionId));
+  }
+}
+
+export async function loadDrafts(): Promise<WorkflowDraft[]> {
+  const records: DraftRecord[] = await withStore(DRAFTS_STORE, 'readonly', store => store.getAll());
+  return records.flatMap(record => {
+    const workflow = rehydrate(record.data);
+    return workflow ? [{ workflow, savedAt: new Date(record.savedAt) }] : [];
+  });
+}
+
+export async function storeDraft(workflow: Workflow): Promise<void> {
+  const record: DraftRecord = { id: workflow.id, savedAt: new Date().toISOString(), data: workflow.toExportObject() };
+  await withStore(DRAFTS_STORE, 'readwrite', store => store.put(record));
+}
+
+export async function deleteDraft(id: string): Promise<void> {
+  await withStore(DRAFTS_STORE, 'readwrite', store => store.delete(id));
+}
+
+/** Records a snapshot of the workflow as it was just saved. */
+export async function storeVersion(workflow: Workflow): Promise<void> {
+  const savedAt = new Date().toISOString();
+  const record: VersionRecord = {
+    id: `${workflow.id}@${savedAt}`,
+    workflowId: workflow.id,
+    savedAt,
+    data: workflow.toExportObject(),
+  };
+  await withStore(VERSIONS_STORE, 'readwrite', store => store.put(record));
+}
+
+/** The saved versions of a workflow, oldest first. */
+export async function loadVersions(workflowId: string): Promise<WorkflowVersion[]> {
+  const records: VersionRecord[] = await withStore(
+    VERSIONS_STORE, 'readonly', store => store.index('workflowId').getAll(workflowId)
+  );
+  return records
+    .sort((a, b) => a.savedAt.localeCompare(b.savedAt))
+    .flatMap(record => {
+      const workflow = rehydrate(record.data);
+      return workflow ? [{ id: record.id, workflowId: record.workflowId, savedAt: new Date(record.savedAt), workflow }] : [];
+    });
+}
+
+// Templates are stored as they are; their workflow data is migrated when a template is used.
+export async function loadStoredTemplates(): Promise<WorkflowTemplate[]> {
+  return withStore(TEMPLATES_STORE, 'readonly', store => store.getAll());
+}
+
+export async function storeTemplate(template: WorkflowTemplate): Promise<void> {
+  await withStore(TEMPLATES_STORE, 'readwrite', store => store.put(template));
+}
+
+export async function deleteStoredTemplate(id: string): Promise<void> {
+  await withStore(TEMPLATES_STORE, 'readwrite', store => store.delete(id));
+}
+
+// Encrypted secrets are stored encrypted; decrypting them is up to the caller.
+export async function loadStoredSecrets(): Promise<StoredSecret[]> {
+  return withStore(SECRETS_STORE, 'readonly', store => store.getAll());
+}
+
+export async function storeSecret(secret: StoredSecret): Promise<void> {
+  await withStore(SECRETS_STORE, 'readwrite', store => store.put(secret));
+}
+
+export async function deleteStoredSecret(name: string): Promise<void> {
+  await withStore(SECRETS_STORE, 'readwrite', store => store.delete(name));
+}
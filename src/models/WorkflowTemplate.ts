@@ -0,0 +1,101 @@
+// src/models/WorkflowTemplate.ts
+
+// Reusable starting points for new workflows. A template is an editor file
+// whose text may contain `{{placeholder}}` fields; each one is asked for when
+// the template is used and substituted wherever it appears, in prompts,
+// endpoints, conditions and notes alike.
+
+import { Workflow } from './Workflow';
+import { RawWorkflowData } from './WorkflowMigrations';
+import { generateId } from './WorkflowIds';
+
+export interface TemplateField {
+  key: string;
+  label: string;
+  defaultValue: string;
+  description?: string;
+}
+
+export interface WorkflowTemplate {
+  id: string;
+  name: string;
+  description: string;
+  fields: TemplateField[];
+  // The workflow in the editor file format, placeholders and all. Files from
+  // older editor versions are migrated when the template is used.
+  data: RawWorkflowData;
+  // Built-in templates ship with the editor and cannot be deleted.
+  builtIn: boolean;
+}
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+const collectStrings = (value: unknown, strings: string[] = []): string[] => {
+  if (typeof value === 'string') strings.push(value);
+  else if (Array.isArray(value)) value.forEach(item => collectStrings(item, strings));
+  else if (value && typeof value === 'object') Object.values(value).forEach(item => collectStrings(item, strings));
+  return strings;
+};
+
+/** The placeholder keys used anywhere in the data, in order of first appearance. */
+export function findPlaceholders(data: unknown): string[] {
+  const keys = collectStrings(data).flatMap(text => [...text.matchAll(PLACEHOLDER)].map(match => match[1]));
+  return [...new Set(keys)];
+}
+
+/** Replaces every known placeholder; unknown ones are left as they are. */
+export function fillPlaceholders<T>(value: T, values: Record<string, string>): T {
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER, (placeholder, key: string) => key in values ? values[key] : placeholder) as T;
+  }
+  if (Array.isArray(value)) return value.map(item => fillPlaceholders(item, values)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillPlaceholders(item, values)])) as T;
+  }
+  return value;
+}
+
+// `company_name` → `Company name`
+const labelFor = (key: string) => {
+  const words = key.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Turns a workflow into a template. Its placeholders become the template's
+ * fields; `fields` can give some of them a label, default or description.
+ */
+export function createTemplate(
+  workflow: Workflow, name: string, description: string = '', fields: Partial<TemplateField>[] = []
+): WorkflowTemplate {
+  const data: RawWorkflowData = workflow.toExportObject();
+  return {
+    id: generateId(),
+    name,
+    description,
+    fields: findPlaceholders(data).map(key => {
+      const given = fields.find(field => field.key === key);
+      return {
+        key,
+        label: given?.label?.trim() || labelFor(key),
+        defaultValue: given?.defaultValue || '',
+        ...(given?.description ? { description: given.description } : {}),
+      };
+    }),
+    data,
+    builtIn: false,
+  };
+}
+
+/**
+ * Creates a new workflow from a template. Fields without a value fall back to
+ * their default. The workflow gets a fresh id, so a template can be used any
+ * number of times.
+ */
+export function instantiateTemplate(template: WorkflowTemplate, values: Record<string, string>, name: string): Workflow {
+  const filled = fillPlaceholders(template.data, Object.fromEntries(
+    template.fields.map(field => [field.key, values[field.key] || field.defaultValue])
+  ));
+  const now = new Date().toISOString();
+  return Workflow.fromImportData({ ...filled, id: generateId(), name, createdAt: now, updatedAt: now });
+}
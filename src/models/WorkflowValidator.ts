@@ -0,0 +1,442 @@
+// src/models/WorkflowValidator.ts
+
+import type { Workflow } from './Workflow';
+import { BaseEdgeConfig, ConditionalEdgeConfig, LoopingEdgeConfig, ParallelEdgeConfig } from './WorkflowEdge';
+import { BaseNodeConfig, SubworkflowNodeConfig } from './WorkflowNode';
+import { checkCondition } from './ConditionExpression';
+import { checkCompatibility, formatSchema } from './PortSchema';
+import { findLiteralCredentials } from './Credentials';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+  | 'missing-start'
+  | 'missing-end'
+  | 'dangling-edge'
+  | 'unreachable-node'
+  | 'no-path-to-end'
+  | 'cycle'
+  | 'conditional-without-default'
+  | 'invalid-edge-config'
+  | 'invalid-parallel'
+  | 'invalid-error-handling'
+  | 'unconfigured-subworkflow'
+  | 'missing-subworkflow'
+  | 'invalid-condition'
+  | 'invalid-binding'
+  | 'duplicate-binding'
+  | 'type-mismatch'
+  | 'literal-credential';
+
+// A single problem found in a workflow graph. `nodeId`/`edgeId` point at the
+// element the diagnostic should be shown on, if any.
+export interface WorkflowDiagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  nodeId?: string;
+  edgeId?: string;
+}
+
+// Workflows are immutable, so the result for a given instance never changes.
+// Caching lets every node badge ask for diagnostics without re-walking the graph.
+// Subworkflow references also depend on the library, which is replaced on every change.
+const diagnosticsCache = new WeakMap<Workflow, { library?: Workflow[]; diagnostics: WorkflowDiagnostic[] }>();
+
+/**
+ * Pass the `library` of saved workflows to also check that subworkflow nodes
+ * embed workflows that exist, directly and through nested subworkflows.
+ */
+export function validateWorkflow(workflow: Workflow, library?: Workflow[]): WorkflowDiagnostic[] {
+  const cached = diagnosticsCache.get(workflow);
+  if (cached && cached.library === library) return cached.diagnostics;
+
+  const diagnostics: WorkflowDiagnostic[] = [];
+  const nodeIds = new Set(workflow.nodes.map(node => node.id));
+  const labelOf = (nodeId: string) => workflow.findNode(nodeId)?.data.label || nodeId;
+
+  // --- Start / End presence ---
+  const startNodes = workflow.getStartNodes();
+  const endNodes = workflow.nodes.filter(node => node.isEndNode());
+  if (startNodes.length === 0) {
+    diagnostics.push({ severity: 'error', code: 'missing-start', message: 'Workflow has no Start node.' });
+  }
+  if (endNodes.length === 0) {
+    diagnostics.push({ severity: 'error', code: 'missing-end', message: 'Workflow has no End node.' });
+  }
+
+  // --- Dangling edges ---
+  // Only edges whose endpoints both exist take part in the graph checks below.
+  const liveEdges = workflow.edges.filter(edge => {
+    const missing = [edge.source, edge.target].filter(id => !nodeIds.has(id));
+    if (missing.length > 0) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'dangling-edge',
+        message: `Edge references missing node ${missing.join(', ')}.`,
+        edgeId: edge.id,
+      });
+      return false;
+    }
+    return true;
+  });
+
+  const outgoing = new Map<string, string[]>();
+  const incoming = new Map<string, string[]>();
+  for (const id of nodeIds) {
+    outgoing.set(id, []);
+    incoming.set(id, []);
+  }
+  for (const edge of liveEdges) {
+    outgoing.get(edge.source)!.push(edge.target);
+    incoming.get(edge.target)!.push(edge.source);
+  }
+
+  // --- Reachability from Start and to End ---
+  const reachableFromStart = collectReachable(startNodes.map(node => node.id), outgoing);
+  const canReachEnd = collectReachable(endNodes.map(node => node.id), incoming);
+
+  for (const node of workflow.nodes) {
+    if (startNodes.length > 0 && !reachableFromStart.has(node.id)) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'unreachable-node',
+        message: `"${labelOf(node.id)}" cannot be reached from the Start node.`,
+        nodeId: node.id,
+      });
+    }
+    if (endNodes.length > 0 && !canReachEnd.has(node.id)) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'no-path-to-end',
+        message: `"${labelOf(node.id)}" has no path to the End node.`,
+        nodeId: node.id,
+      });
+    }
+  }
+
+  // --- Cycles ---
+  // Looping edges are the only sanctioned way to go backwards in the graph.
+  const forwardOutgoing = new Map<string, string[]>();
+  for (const id of nodeIds) forwardOutgoing.set(id, []);
+  for (const edge of liveEdges) {
+    if (!edge.isLooping()) forwardOutgoing.get(edge.source)!.push(edge.target);
+  }
+  for (const cycle of findCycles(forwardOutgoing)) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'cycle',
+      message: `Cycle without a looping edge: ${cycle.map(labelOf).join(' → ')}.`,
+      nodeId: cycle[0],
+    });
+  }
+
+  // --- Conditional fan-outs ---
+  const edgesBySource = new Map<string, typeof liveEdges>();
+  for (const edge of liveEdges) {
+    edgesBySource.set(edge.source, [...(edgesBySource.get(edge.source) || []), edge]);
+  }
+  for (const [sourceId, edges] of edgesBySource) {
+    const hasConditional = edges.some(edge => edge.isConditional());
+    const hasDefault = edges.some(edge => edge.type === 'default');
+    if (hasConditional && !hasDefault) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'conditional-without-default',
+        message: `"${labelOf(sourceId)}" has conditional branches but no default branch.`,
+        nodeId: sourceId,
+      });
+    }
+  }
+
+  // --- Parallel fan-outs ---
+  // All branches leaving a node share one join, which every branch must reach.
+  for (const [sourceId, edges] of edgesBySource) {
+    const branches = edges.filter(edge => edge.isParallel());
+    if (branches.length === 0) continue;
+    const parallel = (severity: DiagnosticSeverity, message: string) =>
+      diagnostics.push({ severity, code: 'invalid-parallel', message, nodeId: sourceId });
+
+    if (branches.length === 1) {
+      parallel('warning', `"${labelOf(sourceId)}" has a single parallel branch; add another or make it a default edge.`);
+    }
+    const configs = branches.map(edge => edge.getConfig<ParallelEdgeConfig>()).filter(config => config instanceof ParallelEdgeConfig);
+    if (configs.some(config => !config.hasSameJoin(configs[0]))) {
+      parallel('warning', `Parallel branches from "${labelOf(sourceId)}" disagree on how to join.`);
+    }
+    const joinConfig = configs[0];
+    if (!joinConfig) continue;
+    if (joinConfig.joinMode === 'firstN' && joinConfig.joinCount > branches.length) {
+      parallel('error', `"${labelOf(sourceId)}" waits for ${joinConfig.joinCount} branches but only has ${branches.length}.`);
+    }
+    if (joinConfig.joinNodeId && !nodeIds.has(joinConfig.joinNodeId)) {
+      parallel('error', `Parallel branches from "${labelOf(sourceId)}" join at a node that no longer exists.`);
+      continue;
+    }
+    const joinNode = workflow.findJoinNode(sourceId);
+    if (!joinNode) {
+      parallel('warning', `Parallel branches from "${labelOf(sourceId)}" never reconverge.`);
+    } else {
+      const reachesJoin = new Set(workflow.getUpstreamNodes(joinNode.id).map(node => node.id));
+      if (branches.some(edge => !reachesJoin.has(edge.target))) {
+        parallel('warning', `Not every parallel branch from "${labelOf(sourceId)}" reaches "${joinNode.data.label}".`);
+      }
+    }
+  }
+
+  // --- Credentials ---
+  for (const node of workflow.nodes) {
+    for (const key of findLiteralCredentials(node.data.inputs)) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'literal-credential',
+        message: `"${key}" of "${labelOf(node.id)}" holds a literal credential, which is left out of exports. Store it in the credential vault and use a secret: reference instead.`,
+        nodeId: node.id,
+      });
+    }
+  }
+
+  // --- Subworkflows ---
+  for (const node of workflow.nodes) {
+    if (node.type === 'subworkflow' && !node.getConfig<SubworkflowNodeConfig>()?.workflowId) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'unconfigured-subworkflow',
+        message: `"${labelOf(node.id)}" does not embed a workflow yet.`,
+        nodeId: node.id,
+      });
+    }
+  }
+
+  // The export can only include embedded workflows that are in the library.
+  if (library) {
+    const findWorkflow = (id: string) => (id === workflow.id ? workflow : library.find(w => w.id === id));
+    // The first workflow reachable from `rootId` that is not in the library.
+    const findMissingWorkflow = (rootId: string) => {
+      const seen = new Set<string>();
+      const pending = [rootId];
+      while (pending.length > 0) {
+        const id = pending.shift()!;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        const embedded = findWorkflow(id);
+        if (!embedded) return id;
+        pending.push(...embedded.getSubworkflowIds());
+      }
+      return undefined;
+    };
+
+    for (const node of workflow.nodes) {
+      const workflowId = node.type === 'subworkflow' ? node.getConfig<SubworkflowNodeConfig>()?.workflowId : undefined;
+      const missingId = workflowId && findMissingWorkflow(workflowId);
+      if (!workflowId || !missingId) continue;
+      diagnostics.push({
+        severity: 'error',
+        code: 'missing-subworkflow',
+        message: missingId === workflowId
+          ? `"${labelOf(node.id)}" embeds a workflow that no longer exists.`
+          : `"${labelOf(node.id)}" embeds "${findWorkflow(workflowId)!.name}", which embeds a workflow that no longer exists.`,
+        nodeId: node.id,
+      });
+    }
+  }
+
+  // --- Error handling ---
+  for (const node of workflow.nodes) {
+    const config = node.getConfig();
+    const errorEdges = liveEdges.filter(edge => edge.source === node.id && edge.isError());
+    const routesErrors = config instanceof BaseNodeConfig && config.onError === 'route';
+    if (config instanceof BaseNodeConfig && !config.validatePolicy()) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'invalid-error-handling',
+        message: `"${labelOf(node.id)}" has an invalid retry or timeout setting.`,
+        nodeId: node.id,
+      });
+    }
+    if (routesErrors && errorEdges.length === 0) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'invalid-error-handling',
+        message: `"${labelOf(node.id)}" routes its errors but has no error edge.`,
+        nodeId: node.id,
+      });
+    }
+    if (!routesErrors) {
+      for (const edge of errorEdges) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'invalid-error-handling',
+          message: `Error edge from "${labelOf(node.id)}" is never taken; set the node to route errors.`,
+          edgeId: edge.id,
+        });
+      }
+    }
+  }
+
+  // --- Edge configurations ---
+  for (const edge of workflow.edges) {
+    if (edge.type === 'default' || edge.isError()) continue;
+    const config = edge.getConfig();
+    if (!(config instanceof BaseEdgeConfig)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'invalid-edge-config',
+        message: `${capitalize(edge.type)} edge from "${labelOf(edge.source)}" has not been configured.`,
+        edgeId: edge.id,
+      });
+    } else if (!config.validate()) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'invalid-edge-config',
+        message: `${capitalize(edge.type)} edge from "${labelOf(edge.source)}" has an invalid configuration.`,
+        edgeId: edge.id,
+      });
+    }
+  }
+
+  // --- Edge conditions ---
+  // Conditions may only reference outputs of nodes that have run before the edge is taken
+  // (and the iteration counters of loops).
+  for (const edge of liveEdges) {
+    const config = edge.getConfig();
+    const condition = config instanceof ConditionalEdgeConfig ? config.condition
+      : config instanceof LoopingEdgeConfig ? config.breakCondition
+      : undefined;
+    if (!condition?.trim()) continue;
+
+    const variables = workflow.getConditionVariables(edge.source);
+    for (const problem of checkCondition(condition, variables)) {
+      diagnostics.push({
+        severity: problem.severity,
+        code: 'invalid-condition',
+        message: `Condition on edge from "${labelOf(edge.source)}": ${problem.message}`,
+        edgeId: edge.id,
+      });
+    }
+  }
+
+  // --- Port bindings ---
+  const boundInputs = new Set<string>();
+  for (const edge of liveEdges) {
+    const sourceNode = workflow.findNode(edge.source)!;
+    const targetNode = workflow.findNode(edge.target)!;
+    if (edge.sourceHandle && !(edge.sourceHandle in (sourceNode.data.outputs || {}))) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'invalid-binding',
+        message: `"${labelOf(edge.source)}" has no output named "${edge.sourceHandle}".`,
+        edgeId: edge.id,
+      });
+    }
+    if (edge.targetHandle) {
+      if (!(edge.targetHandle in (targetNode.data.inputs || {}))) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'invalid-binding',
+          message: `"${labelOf(edge.target)}" has no input named "${edge.targetHandle}".`,
+          edgeId: edge.id,
+        });
+      }
+      // Untyped edges bind the source's first output, as `getInputBindings` does.
+      const outputKey = edge.sourceHandle || Object.keys(sourceNode.data.outputs || {})[0];
+      if (outputKey && outputKey in (sourceNode.data.outputs || {}) && edge.targetHandle in (targetNode.data.inputs || {})) {
+        const outputSchema = sourceNode.getOutputSchema(outputKey);
+        const inputSchema = targetNode.getInputSchema(edge.targetHandle);
+        const compatibility = checkCompatibility(outputSchema, inputSchema);
+        if (compatibility !== 'compatible') {
+          diagnostics.push({
+            severity: compatibility === 'incompatible' ? 'error' : 'warning',
+            code: 'type-mismatch',
+            message: compatibility === 'incompatible'
+              ? `"${outputKey}" (${formatSchema(outputSchema)}) cannot feed "${edge.targetHandle}" (${formatSchema(inputSchema)}) of "${labelOf(edge.target)}".`
+              : `"${outputKey}" (${formatSchema(outputSchema)}) is converted to text for "${edge.targetHandle}" of "${labelOf(edge.target)}".`,
+            edgeId: edge.id,
+          });
+        }
+      }
+      const bindingKey = `${edge.target}.${edge.targetHandle}`;
+      if (boundInputs.has(bindingKey)) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'duplicate-binding',
+          message: `Input "${edge.targetHandle}" of "${labelOf(edge.target)}" is bound by more than one edge.`,
+          edgeId: edge.id,
+        });
+      }
+      boundInputs.add(bindingKey);
+    }
+  }
+
+  diagnosticsCache.set(workflow, { library, diagnostics });
+  return diagnostics;
+}
+
+function collectReachable(roots: string[], adjacency: Map<string, string[]>): Set<string> {
+  const visited = new Set<string>(roots);
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of adjacency.get(current) || []) {
+      if (!visited.has(next)) {
+        visited.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return visited;
+}
+
+/**
+ * Returns one representative cycle per strongly connected component that
+ * contains a cycle (Tarjan's algorithm), so a tangle is reported once.
+ */
+function findCycles(adjacency: Map<string, string[]>): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const strongConnect = (nodeId: string) => {
+    indices.set(nodeId, index);
+    lowLinks.set(nodeId, index);
+    index++;
+    stack.push(nodeId);
+    onStack.add(nodeId);
+
+    for (const next of adjacency.get(nodeId) || []) {
+      if (!indices.has(next)) {
+        strongConnect(next);
+        lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId)!, indices.get(next)!));
+      }
+    }
+
+    if (lowLinks.get(nodeId) === indices.get(nodeId)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== nodeId);
+
+      const isSelfLoop = (adjacency.get(nodeId) || []).includes(nodeId);
+      if (component.length > 1 || isSelfLoop) {
+        cycles.push(component.reverse());
+      }
+    }
+  };
+
+  for (const nodeId of adjacency.keys()) {
+    if (!indices.has(nodeId)) strongConnect(nodeId);
+  }
+  return cycles;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -1,3 +1,24 @@
 export * from './WorkflowNode';
 export * from './WorkflowEdge';
-export * from './Workflow';
\ No newline at end of file
+export * from './Workflow';
+export * from './WorkflowValidator';
+export * from './ConditionExpression';
+export * from './WorkflowSimulator';
+export * from './BackendFormat';
+export * from './WorkflowLayout';
+export * from './WorkflowMigrations';
+export * from './ImportValidation';
+export * from './PortSchema';
+export * from './LangGraphCodegen';
+export * from './DiagramExport';
+export * from './WorkflowYaml';
+export * from './WorkflowStorage';
+export * from './WorkflowDiff';
+export * from './WorkflowMerge';
+export * from './WorkflowClipboard';
+export * from './WorkflowAnnotation';
+export * from './WorkflowTemplate';
+export * from './BuiltInTemplates';
+export * from './NodeTypeRegistry';
+export * from './Credentials';
+export * from './WorkflowIds';
\ No newline at end of file